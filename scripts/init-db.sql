@@ -58,6 +58,22 @@ CREATE TABLE IF NOT EXISTS cache_metrics (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Conversas dos contatos com o assistant (THREAD_STORE=postgres, padrão)
+-- Uma conversa aberta por contato e rota de fila; as encerradas ficam como histórico
+-- history: mensagens da conversa do provedor chat
+CREATE TABLE IF NOT EXISTS conversation_threads (
+    id BIGSERIAL PRIMARY KEY,
+    contact_id VARCHAR(255) NOT NULL,
+    scope VARCHAR(100) NOT NULL DEFAULT '',
+    provider VARCHAR(50) NOT NULL,
+    thread_id VARCHAR(255) NOT NULL,
+    summary TEXT,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    history JSONB
+);
+
 -- Índices para performance
 CREATE INDEX IF NOT EXISTS idx_request_logs_created_at ON request_logs(created_at);
 CREATE INDEX IF NOT EXISTS idx_request_logs_request_id ON request_logs(request_id);
@@ -73,6 +89,9 @@ CREATE INDEX IF NOT EXISTS idx_function_logs_function_name ON function_logs(func
 CREATE INDEX IF NOT EXISTS idx_function_logs_client_id ON function_logs(client_id);
 CREATE INDEX IF NOT EXISTS idx_function_logs_success ON function_logs(success);
 
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_threads_active ON conversation_threads(contact_id, scope) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_conversation_threads_thread_id ON conversation_threads(thread_id);
+
 CREATE INDEX IF NOT EXISTS idx_cache_metrics_created_at ON cache_metrics(created_at);
 CREATE INDEX IF NOT EXISTS idx_cache_metrics_operation ON cache_metrics(operation);
 
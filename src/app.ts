@@ -5,11 +5,17 @@ import express from 'express';
 import cors from 'cors';
 import { config } from './config';
 import { WebhookHandler } from './handlers/WebhookHandler';
-import { OpenAIAssistantService } from './services/OpenAIAssistantService';
 import { WHMCSService } from './services/WHMCSService';
 import { cacheService } from './services/CacheService';
+import { outboxService } from './services/OutboxService';
+import { handoffService } from './services/HandoffService';
+import { rateLimitService } from './services/RateLimitService';
+import { conversationThreads } from './services/ConversationThreadService';
+import { database } from './services/DatabaseService';
 import { createLogger } from './utils/logger';
 import { FunctionFactory } from './factories/FunctionFactory';
+import { ChannelFactory } from './factories/ChannelFactory';
+import { adminRouter } from './routes/admin';
 
 // Logger principal
 const logger = createLogger({ service: 'app' });
@@ -17,9 +23,20 @@ const logger = createLogger({ service: 'app' });
 // Criar aplicação Express
 export const app = express();
 
+// IP real do cliente atrás de proxy reverso (usado pelo limite HTTP)
+if (config.security.trustProxyHops > 0) {
+  app.set('trust proxy', config.security.trustProxyHops);
+}
+
 // Middleware global
 app.use(cors());
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Corpo bruto preservado para assinaturas calculadas sobre os bytes recebidos (X-Hub-Signature-256)
+  verify: (req, res, buf) => {
+    (req as express.Request).rawBody = buf.toString('utf8');
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Middleware para Request ID
@@ -28,8 +45,10 @@ app.use((req, res, next) => {
   next();
 });
 
+// 🛡️ Limite de requisições por IP nas rotas públicas (health check e /admin com token ficam de fora)
+app.use(rateLimitService.httpMiddleware({ skip: ['/health', '/admin'] }));
+
 // Serviços principais
-const openaiService = new OpenAIAssistantService();
 const whmcsService = new WHMCSService();
 const webhookHandler = new WebhookHandler();
 
@@ -45,6 +64,7 @@ app.get('/health', async (req, res) => {
       functions: FunctionFactory.getStats(),
       config: {
         openai: !!config.openai.apiKey,
+        llmProvider: config.llm.provider,
         whmcs: !!config.whmcs.apiUrl,
         whaticket: !!config.whaticket.url
       }
@@ -125,7 +145,9 @@ app.all('/webhook', (req, res, next) => {
 // 🧪 Endpoint de teste para simular webhooks do Whaticket
 app.post('/webhook/test', async (req, res) => {
   try {
+    // Com LLM_PROVIDER=fake a resposta vem do roteiro, sem chamar a OpenAI
     logger.info('🧪 Teste de webhook iniciado', {
+      llmProvider: config.llm.provider,
       payload: req.body,
       headers: req.headers
     });
@@ -180,13 +202,16 @@ app.get('/webhook/status', async (req, res) => {
       webhook: {
         status: 'active',
         endpoint: '/webhook',
-        testEndpoint: '/webhook/test'
+        channelEndpoint: '/webhook/:channel',
+        testEndpoint: '/webhook/test',
+        channels: ChannelFactory.getStats()
       },
       health,
       config: {
         webhookSecret: !!config.webhook.secret && config.webhook.secret !== 'default-secret-change-in-production',
         whaticketUrl: config.whaticket.url,
-        whaticketToken: !!config.whaticket.token
+        whaticketToken: !!config.whaticket.token,
+        whatsappCloud: !!config.whatsappCloud.accessToken
       },
       timestamp: new Date().toISOString()
     });
@@ -199,6 +224,13 @@ app.get('/webhook/status', async (req, res) => {
   }
 });
 
+// 📱 Webhook dos canais de entrada
+// POST /webhook testa os canais padrão; POST /webhook/:channel usa o adapter do canal
+// POST /webhook/:channel/:tenant fixa o tenant (sem ele, o tenant vem do companyId do payload)
+app.post('/webhook/:channel?', (req, res) => webhookHandler.handle(req, res, req.params.channel));
+app.post('/webhook/:channel/:tenant', (req, res) => webhookHandler.handle(req, res, req.params.channel, req.params.tenant));
+app.get('/webhook/:channel/:tenant?', (req, res) => webhookHandler.verifyChallenge(req, res, req.params.channel));
+
 // 📊 Status das Funções
 app.get('/functions', (req, res) => {
   res.json({
@@ -246,6 +278,9 @@ app.get('/logs', (req, res) => {
   });
 });
 
+// 🛠️ Administração (filas, dead-letter)
+app.use('/admin', adminRouter);
+
 // ❌ 404 Handler
 app.use('*', (req, res) => {
   res.status(404).json({
@@ -253,11 +288,41 @@ app.use('*', (req, res) => {
     available: [
       'GET /health',
       'POST /webhook',
+      'POST /webhook/:channel',
+      'POST /webhook/:channel/:tenant',
+      'GET /webhook/:channel (verificação)',
       'POST /webhook/test',
       'GET /webhook/status',
       'GET /functions',
       'POST /test-function/:name (dev only)',
-      'GET /logs (dev only)'
+      'GET /logs (dev only)',
+      'GET /admin/queues',
+      'GET /admin/queues/:name/dead',
+      'POST /admin/queues/:name/dead/requeue',
+      'POST /admin/queues/:name/dead/:jobId/requeue',
+      'DELETE /admin/queues/:name/dead/:jobId',
+      'GET /admin/outbox/contacts/:contactId',
+      'GET /admin/outbox/messages/:id',
+      'GET /admin/handoff/:contactId',
+      'DELETE /admin/handoff/:contactId',
+      'GET /admin/bot/:contactId',
+      'POST /admin/bot/:contactId/pause',
+      'POST /admin/bot/:contactId/resume',
+      'GET /admin/blocklist/:contactId',
+      'POST /admin/blocklist/:contactId',
+      'DELETE /admin/blocklist/:contactId',
+      'GET /admin/usage',
+      'GET /admin/usage/contacts/:contactId',
+      'GET /admin/threads/:contactId',
+      'DELETE /admin/threads/:contactId',
+      'GET /admin/tenants',
+      'POST /admin/tenants/reload',
+      'GET /admin/rules',
+      'POST /admin/rules/reload',
+      'GET /admin/assistants',
+      'POST /admin/assistants/reload',
+      'GET /admin/assistants/sync',
+      'POST /admin/assistants/sync'
     ]
   });
 });
@@ -280,7 +345,7 @@ app.use((error: any, req: any, res: any, next: any) => {
 export async function initializeApp() {
   try {
     // Verificar configurações essenciais
-    if (!config.openai.apiKey) {
+    if (!config.openai.apiKey && config.llm.provider !== 'fake') {
       logger.warn('⚠️ OpenAI API Key não configurada - funcionalidade limitada');
     }
 
@@ -291,11 +356,19 @@ export async function initializeApp() {
     // Teste de conectividade (opcional)
     logger.info('🔧 Verificando serviços...');
     
+    await cacheService.connect();
+    await conversationThreads.init();
+    
     const healthCheck = await webhookHandler.healthCheck();
     logger.info(`📊 Status: ${healthCheck.status}`, {
       functions: FunctionFactory.getStats().totalFunctions
     });
 
+    // Workers das filas de mensagens recebidas, de saída e de transferências agendadas
+    webhookHandler.startWorkers();
+    outboxService.startWorkers();
+    handoffService.startWorkers();
+
     logger.info('✅ Aplicação inicializada com sucesso');
 
   } catch (error) {
@@ -304,4 +377,16 @@ export async function initializeApp() {
   }
 }
 
+// Finalização (graceful shutdown)
+export async function shutdownApp() {
+  try {
+    await Promise.all([webhookHandler.stopWorkers(), outboxService.stopWorkers(), handoffService.stopWorkers()]);
+    logger.info('✅ Workers finalizados');
+  } catch (error) {
+    logger.error('❌ Erro ao finalizar workers', error);
+  }
+
+  await database.disconnect();
+}
+
 export default app;
\ No newline at end of file
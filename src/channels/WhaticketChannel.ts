@@ -0,0 +1,88 @@
+import { BaseChannelAdapter } from './base/BaseChannelAdapter';
+import { tenantService } from '../services/TenantService';
+import { schemas } from '../utils/validators';
+import type { InboundMessage, WhaTicketWebhook } from '../types';
+
+// 📱 Whaticket - formato REAL do webhook (sender, mensagem, chamadoId, filaescolhida...)
+export class WhaticketChannel extends BaseChannelAdapter<WhaTicketWebhook> {
+  readonly name = 'whaticket';
+  readonly description = 'Whaticket (formato real: sender/mensagem/chamadoId)';
+  
+  private static readonly ACTIONS = ['start', 'message'];
+  
+  // ✅ Validar payload - exige ao menos um campo característico do formato real
+  parse(body: unknown): WhaTicketWebhook | null {
+    const result = schemas.whaticketRealWebhook.safeParse(body);
+    if (!result.success) {
+      this.logger.debug('Payload rejeitado pelo schema do Whaticket', {
+        channel: this.name,
+        errors: result.error.errors
+      });
+      return null;
+    }
+    
+    const data = result.data as WhaTicketWebhook;
+    if (!data.sender && !data.mensagem && !data.chamadoId) {
+      return null;
+    }
+    
+    return data;
+  }
+  
+  // 🎯 Apenas mensagens do cliente (ou ações de início de atendimento)
+  shouldProcess(payload: WhaTicketWebhook): boolean {
+    if (payload.fromMe === true) {
+      return false;
+    }
+    
+    if (this.hasText(payload.mensagem)) {
+      return true;
+    }
+    
+    return !!payload.acao && WhaticketChannel.ACTIONS.includes(payload.acao);
+  }
+  
+  // 🧑‍💼 Mensagem enviada pelo Whaticket (atendente ou resposta do próprio bot)
+  isFromAgent(payload: WhaTicketWebhook): boolean {
+    return payload.fromMe === true && this.hasText(payload.mensagem);
+  }
+  
+  // 🆔 sender > ticketData.contact.number > chamadoId
+  identifyContact(payload: WhaTicketWebhook): string | null {
+    const byNumber = this.contactIdFromNumber(payload.sender || payload.ticketData?.contact?.number);
+    if (byNumber) {
+      return byNumber;
+    }
+    
+    return payload.chamadoId ? `ticket_${payload.chamadoId}` : null;
+  }
+  
+  // 🔄 Normalizar para InboundMessage
+  normalize(payload: WhaTicketWebhook, contactId: string): InboundMessage {
+    return {
+      channel: this.name,
+      contactId,
+      contactNumber: payload.sender || payload.ticketData?.contact?.number,
+      contactName: payload.name || payload.ticketData?.contact?.name,
+      text: this.hasText(payload.mensagem) ? payload.mensagem : `Evento: ${payload.acao}`,
+      ticketId: payload.chamadoId || payload.ticketData?.id,
+      queueId: payload.filaescolhidaid || payload.queueId,
+      queueName: payload.filaescolhida,
+      companyId: payload.companyId,
+      whatsappId: payload.defaultWhatsapp_x || payload.ticketData?.whatsapp?.id,
+      ticketStatus: payload.ticketData?.status,
+      event: payload.acao || 'message',
+      isGroup: payload.isGroup
+    };
+  }
+  
+  // 📤 Responder pela API do Whaticket do tenant
+  async sendText(message: InboundMessage, text: string): Promise<{ messageId?: string }> {
+    if (!message.contactNumber) {
+      throw new Error(`Número de contato não disponível para ${message.contactId}`);
+    }
+    
+    const result = await tenantService.getWhaticket(message.tenantId).sendText(message.contactNumber, text);
+    return { messageId: result.messageId };
+  }
+}
@@ -0,0 +1,85 @@
+import { BaseChannelAdapter } from './base/BaseChannelAdapter';
+import { tenantService } from '../services/TenantService';
+import { schemas } from '../utils/validators';
+import type { InboundMessage, WhaTicketWebhook } from '../types';
+
+// 📱 Whaticket - formato antigo do webhook (event, ticket, message)
+export class WhaticketLegacyChannel extends BaseChannelAdapter<WhaTicketWebhook> {
+  readonly name = 'whaticket-legacy';
+  readonly description = 'Whaticket (formato antigo: event/ticket/message)';
+  
+  private static readonly EVENTS = ['message', 'message:new', 'message:received'];
+  
+  // ✅ Validar payload - exige ao menos um dos blocos do formato antigo
+  parse(body: unknown): WhaTicketWebhook | null {
+    const result = schemas.whaTicketWebhook.safeParse(body);
+    if (!result.success) {
+      this.logger.debug('Payload rejeitado pelo schema antigo do Whaticket', {
+        channel: this.name,
+        errors: result.error.errors
+      });
+      return null;
+    }
+    
+    const data = result.data as WhaTicketWebhook;
+    if (!data.message && !data.ticket && !data.event) {
+      return null;
+    }
+    
+    return data;
+  }
+  
+  // 🎯 Apenas mensagens do cliente
+  shouldProcess(payload: WhaTicketWebhook): boolean {
+    if (payload.message?.fromMe === true) {
+      return false;
+    }
+    
+    if (this.hasText(payload.message?.body)) {
+      return true;
+    }
+    
+    return !!payload.event && WhaticketLegacyChannel.EVENTS.includes(payload.event);
+  }
+  
+  // 🧑‍💼 Mensagem enviada pelo Whaticket (atendente ou resposta do próprio bot)
+  isFromAgent(payload: WhaTicketWebhook): boolean {
+    return payload.message?.fromMe === true && this.hasText(payload.message?.body);
+  }
+  
+  // 🆔 ticket.contact.number > ticket.id
+  identifyContact(payload: WhaTicketWebhook): string | null {
+    const byNumber = this.contactIdFromNumber(payload.ticket?.contact?.number);
+    if (byNumber) {
+      return byNumber;
+    }
+    
+    return payload.ticket?.id ? `ticket_${payload.ticket.id}` : null;
+  }
+  
+  // 🔄 Normalizar para InboundMessage
+  normalize(payload: WhaTicketWebhook, contactId: string): InboundMessage {
+    return {
+      channel: this.name,
+      contactId,
+      contactNumber: payload.ticket?.contact?.number,
+      contactName: payload.ticket?.contact?.name,
+      text: this.hasText(payload.message?.body) ? payload.message.body : `Evento: ${payload.event}`,
+      messageId: payload.message?.id,
+      ticketId: payload.ticket?.id,
+      timestamp: payload.message?.timestamp,
+      whatsappId: payload.ticket?.whatsapp?.id,
+      event: payload.event || 'message'
+    };
+  }
+  
+  // 📤 Responder pela API do Whaticket do tenant
+  async sendText(message: InboundMessage, text: string): Promise<{ messageId?: string }> {
+    if (!message.contactNumber) {
+      throw new Error(`Número de contato não disponível para ${message.contactId}`);
+    }
+    
+    const result = await tenantService.getWhaticket(message.tenantId).sendText(message.contactNumber, text);
+    return { messageId: result.messageId };
+  }
+}
@@ -0,0 +1,75 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import type { Request } from 'express';
+import { config } from '../config';
+import { WhatsAppCloudChannel } from './WhatsAppCloudChannel';
+
+// 🧪 X-Hub-Signature-256 do webhook da Cloud API
+describe('WhatsAppCloudChannel.verifySignature', () => {
+  const original = { appSecret: config.whatsappCloud.appSecret, env: config.app.env };
+  const channel = new WhatsAppCloudChannel();
+  const secret = 'app-secret';
+  const rawBody = '{"object":"whatsapp_business_account","entry":[]}';
+
+  const sign = (payload: string, key = secret) =>
+    `sha256=${createHmac('sha256', key).update(payload).digest('hex')}`;
+
+  // O app.ts guarda o corpo bruto em rawBody antes do JSON.parse
+  const request = (signature?: string, body = rawBody) => ({
+    headers: signature === undefined ? {} : { 'x-hub-signature-256': signature },
+    rawBody: body,
+    body: JSON.parse(body)
+  }) as unknown as Request;
+
+  afterEach(() => {
+    config.whatsappCloud.appSecret = original.appSecret;
+    config.app.env = original.env;
+  });
+
+  describe('com App Secret', () => {
+    test('aceita o HMAC do corpo bruto', () => {
+      config.whatsappCloud.appSecret = secret;
+
+      assert.equal(channel.verifySignature(request(sign(rawBody))), true);
+    });
+
+    test('recusa quando o corpo não é o que foi assinado', () => {
+      config.whatsappCloud.appSecret = secret;
+      // Mesmo JSON, outra formatação: a assinatura vale para os bytes recebidos
+      const reformatted = JSON.stringify(JSON.parse(rawBody), null, 2);
+
+      assert.equal(channel.verifySignature(request(sign(rawBody), reformatted)), false);
+    });
+
+    test('recusa assinatura de outro App Secret', () => {
+      config.whatsappCloud.appSecret = secret;
+
+      assert.equal(channel.verifySignature(request(sign(rawBody, 'other-secret'))), false);
+    });
+
+    test('recusa sem o header ou com assinatura malformada', () => {
+      config.whatsappCloud.appSecret = secret;
+
+      assert.equal(channel.verifySignature(request()), false);
+      assert.equal(channel.verifySignature(request('sha256=abc')), false);
+      assert.equal(channel.verifySignature(request('not-a-signature')), false);
+    });
+  });
+
+  describe('sem App Secret', () => {
+    test('libera fora de produção', () => {
+      config.whatsappCloud.appSecret = undefined;
+      config.app.env = 'development';
+
+      assert.equal(channel.verifySignature(request()), true);
+    });
+
+    test('recusa em produção', () => {
+      config.whatsappCloud.appSecret = undefined;
+      config.app.env = 'production';
+
+      assert.equal(channel.verifySignature(request(sign(rawBody))), false);
+    });
+  });
+});
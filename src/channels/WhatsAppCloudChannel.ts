@@ -0,0 +1,159 @@
+import { Request } from 'express';
+import { BaseChannelAdapter } from './base/BaseChannelAdapter';
+import { whatsAppCloudService } from '../services/WhatsAppCloudService';
+import { schemas, validators } from '../utils/validators';
+import { config } from '../config';
+import type {
+  InboundMessage,
+  WhatsAppCloudInbound,
+  WhatsAppCloudMessage,
+  WhatsAppCloudWebhook
+} from '../types';
+
+// 🟢 WhatsApp Cloud API (Meta) - webhook oficial, respostas pela Graph API
+export class WhatsAppCloudChannel extends BaseChannelAdapter<WhatsAppCloudWebhook, WhatsAppCloudInbound> {
+  readonly name = 'whatsapp-cloud';
+  readonly description = 'WhatsApp Cloud API (Meta)';
+  
+  // 🤝 Handshake de verificação (GET hub.mode=subscribe&hub.verify_token=...&hub.challenge=...)
+  verifyChallenge(query: Record<string, any>): string | null {
+    const { verifyToken } = config.whatsappCloud;
+    
+    if (!verifyToken) {
+      this.logger.warn('WHATSAPP_CLOUD_VERIFY_TOKEN não configurado - verificação recusada');
+      return null;
+    }
+    
+    if (query['hub.mode'] !== 'subscribe' || query['hub.verify_token'] !== verifyToken) {
+      return null;
+    }
+    
+    return typeof query['hub.challenge'] === 'string' ? query['hub.challenge'] : null;
+  }
+  
+  // 🔐 X-Hub-Signature-256: HMAC-SHA256 do corpo bruto com o App Secret
+  // Sem App Secret configurado: liberado apenas fora de produção
+  verifySignature(req: Request): boolean {
+    const { appSecret } = config.whatsappCloud;
+    
+    if (!appSecret) {
+      this.logger.warn('WHATSAPP_CLOUD_APP_SECRET não configurado - assinatura não verificada');
+      return config.app.env !== 'production';
+    }
+    
+    const signature = req.headers['x-hub-signature-256'];
+    if (!signature || typeof signature !== 'string') {
+      return false;
+    }
+    
+    const payload = req.rawBody ?? JSON.stringify(req.body);
+    return validators.webhookSignature(payload, signature, appSecret).isValid;
+  }
+  
+  // ✅ Validar envelope do webhook
+  parse(body: unknown): WhatsAppCloudWebhook | null {
+    const result = schemas.whatsappCloudWebhook.safeParse(body);
+    if (!result.success) {
+      this.logger.debug('Payload rejeitado pelo schema da Cloud API', {
+        channel: this.name,
+        errors: result.error.errors
+      });
+      return null;
+    }
+    
+    return result.data as WhatsAppCloudWebhook;
+  }
+  
+  // ✂️ Um webhook pode trazer várias mensagens (e atualizações de status)
+  split(payload: WhatsAppCloudWebhook): WhatsAppCloudInbound[] {
+    const inbound: WhatsAppCloudInbound[] = [];
+    
+    for (const entry of payload.entry) {
+      for (const change of entry.changes) {
+        const { value } = change;
+        if (change.field !== 'messages' || !value.metadata) {
+          continue;
+        }
+        
+        for (const status of value.statuses || []) {
+          if (status.status === 'failed') {
+            this.logger.warn('Cloud API: falha na entrega de mensagem', {
+              messageId: status.id,
+              recipient: status.recipient_id,
+              errors: status.errors
+            });
+          } else {
+            this.logger.debug('Cloud API: status de mensagem', {
+              messageId: status.id,
+              status: status.status
+            });
+          }
+        }
+        
+        for (const message of value.messages || []) {
+          inbound.push({
+            phoneNumberId: value.metadata.phone_number_id,
+            contactName: value.contacts?.find(contact => contact.wa_id === message.from)?.profile?.name,
+            message
+          });
+        }
+      }
+    }
+    
+    return inbound;
+  }
+  
+  // 🎯 Apenas mensagens com texto (texto, botões, listas e legendas de mídia)
+  shouldProcess(inbound: WhatsAppCloudInbound): boolean {
+    return this.hasText(this.extractText(inbound.message));
+  }
+  
+  // 🆔 wa_id do remetente
+  identifyContact(inbound: WhatsAppCloudInbound): string | null {
+    return this.contactIdFromNumber(inbound.message.from);
+  }
+  
+  // 🔄 Normalizar para InboundMessage
+  normalize(inbound: WhatsAppCloudInbound, contactId: string): InboundMessage {
+    const { message } = inbound;
+    
+    return {
+      channel: this.name,
+      contactId,
+      accountId: inbound.phoneNumberId,
+      contactNumber: message.from,
+      contactName: inbound.contactName,
+      text: this.extractText(message),
+      messageId: message.id,
+      timestamp: parseInt(message.timestamp) * 1000,
+      event: 'message'
+    };
+  }
+  
+  // 📤 Responder pela Graph API a partir do número que recebeu a mensagem
+  async sendText(message: InboundMessage, text: string): Promise<{ messageId?: string }> {
+    if (!message.accountId || !message.contactNumber) {
+      throw new Error('Mensagem sem phone_number_id ou remetente para resposta');
+    }
+    
+    return whatsAppCloudService.sendText(message.accountId, message.contactNumber, text);
+  }
+  
+  // 📝 Texto conforme o tipo da mensagem
+  private extractText(message: WhatsAppCloudMessage): string {
+    switch (message.type) {
+      case 'text':
+        return message.text?.body || '';
+      case 'button':
+        return message.button?.text || '';
+      case 'interactive':
+        return message.interactive?.button_reply?.title || message.interactive?.list_reply?.title || '';
+      case 'image':
+      case 'document':
+      case 'video':
+        return message[message.type]?.caption || '';
+      default:
+        return '';
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Request } from 'express';
+import type { ChannelAdapter, InboundMessage } from '../../types';
+import { createLogger } from '../../utils/logger';
+import { validators } from '../../utils/validators';
+import { config } from '../../config';
+
+// 🏗️ Classe base abstrata para todos os canais de entrada
+export abstract class BaseChannelAdapter<TPayload = any, TMessage = TPayload> implements ChannelAdapter<TPayload, TMessage> {
+  abstract readonly name: string;
+  abstract readonly description: string;
+  
+  protected logger = createLogger({ service: 'channel' });
+  
+  // 🎯 Métodos abstratos que devem ser implementados por cada canal
+  abstract parse(body: unknown): TPayload | null;
+  abstract shouldProcess(message: TMessage): boolean;
+  abstract identifyContact(message: TMessage): string | null;
+  abstract normalize(message: TMessage, contactId: string): InboundMessage;
+  
+  // 🔐 Validar assinatura (implementação padrão: HMAC do WEBHOOK_SECRET em x-signature)
+  // Opcional - só rejeita quando o header está presente e não confere
+  verifySignature(req: Request): boolean {
+    if (!config.webhook.secret || config.webhook.secret === 'default-secret-change-in-production') {
+      return true;
+    }
+    
+    const signature = req.headers['x-signature'] || req.headers['signature'];
+    if (!signature) {
+      return true;
+    }
+    
+    if (typeof signature !== 'string') {
+      return false;
+    }
+    
+    try {
+      const payload = JSON.stringify(req.body);
+      return validators.webhookSignature(payload, signature, config.webhook.secret).isValid;
+    } catch (error) {
+      this.logger.error('Erro ao validar assinatura do webhook', error, { channel: this.name });
+      return false;
+    }
+  }
+  
+  // 🆔 userId estável a partir de um número de telefone
+  protected contactIdFromNumber(number?: string): string | null {
+    const digits = (number || '').replace(/\D/g, '');
+    return digits ? `whatsapp_${digits}` : null;
+  }
+  
+  // 📝 Texto não vazio
+  protected hasText(text?: string): boolean {
+    return typeof text === 'string' && text.trim().length > 0;
+  }
+}
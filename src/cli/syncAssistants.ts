@@ -0,0 +1,64 @@
+// 🔄 Sincronizar os assistants da OpenAI com o registro de funções, OPENAI_MODEL e instruções locais
+// Uso: npm run assistant:sync -- [--dry-run] [--tenant <id>] [--assistant <asst_...>]
+// Em produção: node dist/cli/syncAssistants.js [opções]
+import type { AssistantSyncDiff } from '../types';
+
+// Logs do serviço só a partir de warn (a saída do comando é o relatório)
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+
+function parseArgs(argv: string[]): { dryRun: boolean; tenantId?: string; assistantId?: string } {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  
+  return {
+    dryRun: argv.includes('--dry-run'),
+    tenantId: valueOf('--tenant'),
+    assistantId: valueOf('--assistant')
+  };
+}
+
+function printDiff(diff: AssistantSyncDiff, dryRun: boolean): void {
+  const label = `${diff.assistantId} (tenant ${diff.tenantId}${diff.route ? `, fila ${diff.route}` : ''})`;
+  
+  if (diff.error) {
+    console.log(`❌ ${label}: ${diff.error}`);
+    return;
+  }
+  
+  if (diff.inSync) {
+    console.log(`✅ ${label}: sincronizado`);
+    return;
+  }
+  
+  console.log(`${diff.applied ? '✏️' : '⚠️'} ${label}: ${diff.applied ? 'atualizado' : dryRun ? 'diferenças (dry-run)' : 'diferenças'}`);
+  
+  if (diff.model) {
+    console.log(`   modelo: ${diff.model.remote} → ${diff.model.local}`);
+  }
+  
+  if (diff.instructions) {
+    console.log(`   instruções: ${diff.instructions.remoteLength} → ${diff.instructions.localLength} caracteres`);
+    diff.instructions.diff.forEach(line => console.log(`     ${line}`));
+  }
+  
+  diff.tools.added.forEach(name => console.log(`   + ${name}`));
+  diff.tools.removed.forEach(name => console.log(`   - ${name}`));
+  diff.tools.changed.forEach(name => console.log(`   ~ ${name}`));
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const { assistantSync } = await import('../services/AssistantSyncService');
+  
+  const diffs = await assistantSync.sync(options);
+  diffs.forEach(diff => printDiff(diff, options.dryRun));
+  
+  process.exit(diffs.some(diff => diff.error) ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,133 @@
+import { config } from '../config';
+import { assistantRouting } from '../services/AssistantRoutingService';
+import { botPauseService } from '../services/BotPauseService';
+import { clientVerification } from '../services/ClientVerificationService';
+import { conversationThreads } from '../services/ConversationThreadService';
+import { handoffService } from '../services/HandoffService';
+import { tenantService } from '../services/TenantService';
+import { createLogger } from '../utils/logger';
+import type { ChatCommand, ChatCommandContext } from '../types';
+
+const logger = createLogger({ service: 'chat-commands' });
+
+// 📅 Data no idioma dos comandos e no fuso do horário de atendimento
+const formatDate = (context: ChatCommandContext, date: string): string =>
+  new Date(date).toLocaleString(context.locale, {
+    timeZone: config.businessHours.timezone,
+    dateStyle: 'short',
+    timeStyle: 'short'
+  });
+  
+// ⌨️ Comandos padrão do cliente - os gatilhos valem em qualquer idioma, com ou sem "/"; os que
+// mudam o estado do bot (/parar, /voltar) exigem a barra - "pare" ou "continuar" são respostas comuns
+export const defaultCommands: ChatCommand[] = [
+  {
+    name: 'menu',
+    triggers: ['ajuda', 'menu', 'help', 'ayuda', 'comandos'],
+    async execute(context) {
+      const lines = context.commands
+        .filter(command => !command.hidden)
+        .map(command => `*${context.t(`${command.name}.command`)}* - ${context.t(`${command.name}.description`)}`);
+        
+      return [context.t('menu.header'), '', ...lines, '', context.t('menu.footer')].join('\n');
+    }
+  },
+  
+  {
+    name: 'reset',
+    triggers: ['reset', 'reiniciar', 'recomecar', 'restart', 'reiniciar conversa'],
+    async execute(context) {
+      const { contactId, tenantId } = context.message;
+      
+      // Uma conversa por rota de fila do tenant, além da do assistant do tenant
+      await tenantService.getAssistant(tenantId).clearUserThread(contactId, assistantRouting.routeNames(tenantId));
+      await clientVerification.forget(contactId);
+      
+      logger.info('🔄 Conversa reiniciada pelo cliente', { requestId: context.requestId, userId: contactId });
+      return context.t('reset.done');
+    }
+  },
+  
+  {
+    name: 'human',
+    triggers: ['humano', 'atendente', 'human', 'agent', 'agente'],
+    async execute(context) {
+      if (handoffService.isEnabled(context.message.tenantId) && await context.transferToHuman()) {
+        return undefined;
+      }
+      
+      return context.t('human.unavailable');
+    }
+  },
+  
+  {
+    name: 'stop',
+    triggers: ['/parar', '/stop'],
+    async execute(context) {
+      await botPauseService.pause(context.message.contactId, 'opt-out', config.commands.optOutDuration);
+      return context.t('stop.done', { start: context.t('start.command') });
+    }
+  },
+  
+  {
+    name: 'start',
+    triggers: ['/voltar', '/volver', '/start'],
+    hidden: true,
+    async execute(context) {
+      // Só desfaz o /parar - a pausa de um atendente ou do admin continua valendo
+      const pause = await botPauseService.getState(context.message.contactId);
+      if (pause?.reason !== 'opt-out') {
+        return undefined;
+      }
+      
+      await botPauseService.resume(context.message.contactId);
+      return context.t('start.done');
+    }
+  },
+  
+  {
+    name: 'data',
+    triggers: ['meusdados', 'meus dados', 'mydata', 'my data', 'misdatos', 'mis datos'],
+    async execute(context) {
+      const { contactId, contactNumber, contactName, tenantId } = context.message;
+      const assistant = tenantService.getAssistant(tenantId);
+      
+      const [verified, { active }] = await Promise.all([
+        clientVerification.get(contactId),
+        conversationThreads.get(contactId, context.assistantRoute?.name, assistant.name)
+      ]);
+      
+      const lines = [context.t('data.header'), ''];
+      
+      if (contactNumber) {
+        lines.push(context.t('data.contact', { number: contactNumber }));
+      }
+      
+      if (contactName) {
+        lines.push(context.t('data.name', { name: contactName }));
+      }
+      
+      if (verified) {
+        // Sem o WHMCS, o vínculo aparece só com o ID do cliente
+        let client = `#${verified.clientId}`;
+        
+        try {
+          const found = await tenantService.getWHMCS(tenantId).findClient(String(verified.clientId));
+          client = found ? `${found.fullname} (#${verified.clientId})` : client;
+        } catch (error) {
+          logger.warn('Cliente verificado não encontrado no WHMCS', { userId: contactId, clientId: verified.clientId });
+        }
+        
+        lines.push(context.t('data.client', { client, verifiedAt: formatDate(context, verified.verifiedAt) }));
+      } else {
+        lines.push(context.t('data.noClient'));
+      }
+      
+      if (active) {
+        lines.push(context.t('data.conversation', { startedAt: formatDate(context, active.startedAt) }));
+      }
+      
+      return [...lines, '', context.t('data.footer', { reset: context.t('reset.command') })].join('\n');
+    }
+  }
+];
@@ -0,0 +1,137 @@
+import type { ChatCommandLocale } from '../types';
+
+// 🌍 Textos enviados ao cliente por idioma (CHAT_COMMANDS_LOCALE): comandos, transferência e limite de mensagens
+// <comando>.command é o atalho mostrado no menu; chaves ausentes em um idioma caem no pt-BR
+export const commandMessages: Record<ChatCommandLocale, Record<string, string>> = {
+  'pt-BR': {
+    'menu.command': '/ajuda',
+    'menu.description': 'mostra esta lista',
+    'menu.header': '📋 *Comandos disponíveis*',
+    'menu.footer': 'Ou é só escrever sua dúvida que eu te ajudo 🙂',
+    
+    'reset.command': '/reset',
+    'reset.description': 'começa a conversa do zero',
+    'reset.done': '🔄 Pronto! Começamos uma conversa nova - esqueci o que falamos até aqui e o vínculo com o seu cadastro.\n\nComo posso te ajudar?',
+    
+    'human.command': '/humano',
+    'human.description': 'fala com um atendente',
+    'human.unavailable': '😕 No momento não consigo transferir você para um atendente por aqui.\n\nMe conte o que precisa que eu tento resolver 🙂',
+    
+    'stop.command': '/parar',
+    'stop.description': 'para as respostas automáticas',
+    'stop.done': '🔕 Certo, não vou mais responder automaticamente por aqui.\n\nQuando quiser voltar a falar comigo, envie *{{start}}*.',
+    
+    'start.command': '/voltar',
+    'start.description': 'volta a receber as respostas automáticas',
+    'start.done': '🔔 Que bom ter você de volta! Como posso te ajudar?',
+    
+    'data.command': '/meusdados',
+    'data.description': 'mostra os dados que temos do seu contato',
+    'data.header': '👤 *Seus dados*',
+    'data.contact': '• WhatsApp: {{number}}',
+    'data.name': '• Nome: {{name}}',
+    'data.client': '• Cliente: {{client}} (confirmado em {{verifiedAt}})',
+    'data.noClient': '• Cliente: ainda não identificado',
+    'data.conversation': '• Conversa atual desde: {{startedAt}}',
+    'data.footer': 'Para apagar a conversa e o vínculo com o cadastro, envie *{{reset}}*.',
+    
+    'handoff.transferred': '🙋 Certo! Estou transferindo você para um de nossos atendentes.\n\n' +
+      'Ele já vai receber o resumo da nossa conversa e continua o atendimento por aqui. Aguarde um instante 🙂',
+    'handoff.scheduled': '🕐 Nossa equipe está fora do horário de atendimento agora.\n\n' +
+      'Seu pedido ficou registrado e um atendente assume a conversa a partir de *{{label}}*. ' +
+      'Enquanto isso, posso continuar te ajudando por aqui 🙂',
+    
+    'rateLimit.notice': '⏳ Recebi muitas mensagens suas em pouco tempo.\n\n' +
+      'Por favor, aguarde cerca de {{duration}} antes de enviar novas mensagens e eu continuo te ajudando por aqui 🙂',
+    'rateLimit.minute': '1 minuto',
+    'rateLimit.minutes': '{{minutes}} minutos'
+  },
+  
+  en: {
+    'menu.command': '/help',
+    'menu.description': 'shows this list',
+    'menu.header': '📋 *Available commands*',
+    'menu.footer': 'Or just type your question and I will help you 🙂',
+    
+    'reset.command': '/reset',
+    'reset.description': 'starts the conversation over',
+    'reset.done': '🔄 Done! We are starting a new conversation - I forgot what we talked about and the link to your account.\n\nHow can I help you?',
+    
+    'human.command': '/human',
+    'human.description': 'talks to an agent',
+    'human.unavailable': '😕 I cannot transfer you to an agent here right now.\n\nTell me what you need and I will try to solve it 🙂',
+    
+    'stop.command': '/stop',
+    'stop.description': 'stops the automatic replies',
+    'stop.done': '🔕 Okay, I will stop replying automatically here.\n\nWhenever you want to talk to me again, send *{{start}}*.',
+    
+    'start.command': '/start',
+    'start.description': 'turns the automatic replies back on',
+    'start.done': '🔔 Welcome back! How can I help you?',
+    
+    'data.command': '/mydata',
+    'data.description': 'shows the data we have about your contact',
+    'data.header': '👤 *Your data*',
+    'data.contact': '• WhatsApp: {{number}}',
+    'data.name': '• Name: {{name}}',
+    'data.client': '• Customer: {{client}} (confirmed on {{verifiedAt}})',
+    'data.noClient': '• Customer: not identified yet',
+    'data.conversation': '• Current conversation since: {{startedAt}}',
+    'data.footer': 'To erase the conversation and the link to your account, send *{{reset}}*.',
+    
+    'handoff.transferred': '🙋 Sure! I am transferring you to one of our agents.\n\n' +
+      'They will get a summary of our conversation and continue the service right here. Please wait a moment 🙂',
+    'handoff.scheduled': '🕐 Our team is outside business hours right now.\n\n' +
+      'Your request was registered and an agent will take over the conversation from *{{label}}*. ' +
+      'In the meantime, I can keep helping you here 🙂',
+    
+    'rateLimit.notice': '⏳ I received many messages from you in a short time.\n\n' +
+      'Please wait about {{duration}} before sending new messages and I will keep helping you here 🙂',
+    'rateLimit.minute': '1 minute',
+    'rateLimit.minutes': '{{minutes}} minutes'
+  },
+  
+  es: {
+    'menu.command': '/ayuda',
+    'menu.description': 'muestra esta lista',
+    'menu.header': '📋 *Comandos disponibles*',
+    'menu.footer': 'O simplemente escribe tu duda y te ayudo 🙂',
+    
+    'reset.command': '/reset',
+    'reset.description': 'empieza la conversación de cero',
+    'reset.done': '🔄 ¡Listo! Empezamos una conversación nueva - olvidé lo que hablamos y el vínculo con tu cuenta.\n\n¿En qué te puedo ayudar?',
+    
+    'human.command': '/humano',
+    'human.description': 'habla con un agente',
+    'human.unavailable': '😕 En este momento no puedo transferirte a un agente por aquí.\n\nCuéntame lo que necesitas e intento resolverlo 🙂',
+    
+    'stop.command': '/parar',
+    'stop.description': 'detiene las respuestas automáticas',
+    'stop.done': '🔕 De acuerdo, ya no responderé automáticamente por aquí.\n\nCuando quieras volver a hablar conmigo, envía *{{start}}*.',
+    
+    'start.command': '/volver',
+    'start.description': 'vuelve a activar las respuestas automáticas',
+    'start.done': '🔔 ¡Qué bueno tenerte de vuelta! ¿En qué te puedo ayudar?',
+    
+    'data.command': '/misdatos',
+    'data.description': 'muestra los datos que tenemos de tu contacto',
+    'data.header': '👤 *Tus datos*',
+    'data.contact': '• WhatsApp: {{number}}',
+    'data.name': '• Nombre: {{name}}',
+    'data.client': '• Cliente: {{client}} (confirmado el {{verifiedAt}})',
+    'data.noClient': '• Cliente: aún no identificado',
+    'data.conversation': '• Conversación actual desde: {{startedAt}}',
+    'data.footer': 'Para borrar la conversación y el vínculo con tu cuenta, envía *{{reset}}*.',
+    
+    'handoff.transferred': '🙋 ¡Claro! Te estoy transfiriendo a uno de nuestros agentes.\n\n' +
+      'Recibirá el resumen de nuestra conversación y seguirá la atención por aquí. Espera un momento 🙂',
+    'handoff.scheduled': '🕐 Nuestro equipo está fuera del horario de atención ahora.\n\n' +
+      'Tu solicitud quedó registrada y un agente tomará la conversación a partir de *{{label}}*. ' +
+      'Mientras tanto, puedo seguir ayudándote por aquí 🙂',
+    
+    'rateLimit.notice': '⏳ Recibí muchos mensajes tuyos en poco tiempo.\n\n' +
+      'Por favor, espera unos {{duration}} antes de enviar nuevos mensajes y sigo ayudándote por aquí 🙂',
+    'rateLimit.minute': '1 minuto',
+    'rateLimit.minutes': '{{minutes}} minutos'
+  }
+};
@@ -0,0 +1,77 @@
+import { createLogger } from '../utils/logger';
+import { config } from '../config';
+import type { ChannelAdapter } from '../types';
+
+// 🏭 Registro de canais de entrada - cada provedor é um adapter selecionado pela rota
+export class ChannelFactory {
+  private static channels = new Map<string, ChannelAdapter>();
+  private static logger = createLogger({ service: 'factory' });
+  
+  // 📝 Registrar canal
+  static register(adapter: ChannelAdapter): void {
+    this.channels.set(adapter.name, adapter);
+    this.logger.info(`✅ Canal registrado: ${adapter.name}`);
+  }
+  
+  // 🎯 Obter canal pelo nome
+  static get(name: string): ChannelAdapter | null {
+    return this.channels.get(name) || null;
+  }
+  
+  // 📋 Canais usados pela rota /webhook sem canal explícito (WEBHOOK_DEFAULT_CHANNELS)
+  static getDefaults(): ChannelAdapter[] {
+    return config.webhook.defaultChannels
+      .map(name => {
+        const adapter = this.channels.get(name);
+        if (!adapter) {
+          this.logger.warn(`❌ Canal padrão não registrado: ${name}`);
+        }
+        return adapter;
+      })
+      .filter(Boolean);
+  }
+  
+  // 📋 Listar canais disponíveis
+  static getAvailableChannels(): string[] {
+    return Array.from(this.channels.keys());
+  }
+  
+  // 🔍 Verificar se canal existe
+  static hasChannel(name: string): boolean {
+    return this.channels.has(name);
+  }
+  
+  // 🗑️ Remover canal (útil para testes)
+  static unregister(name: string): boolean {
+    return this.channels.delete(name);
+  }
+  
+  // 📈 Estatísticas do registro
+  static getStats(): { totalChannels: number; channels: { name: string; description: string }[]; defaults: string[] } {
+    return {
+      totalChannels: this.channels.size,
+      channels: Array.from(this.channels.values()).map(({ name, description }) => ({ name, description })),
+      defaults: config.webhook.defaultChannels
+    };
+  }
+}
+
+// 🎉 Registrar canais embutidos
+export function registerDefaultChannels() {
+  try {
+    const { WhaticketChannel } = require('../channels/WhaticketChannel');
+    const { WhaticketLegacyChannel } = require('../channels/WhaticketLegacyChannel');
+    const { WhatsAppCloudChannel } = require('../channels/WhatsAppCloudChannel');
+    
+    ChannelFactory.register(new WhaticketChannel());
+    ChannelFactory.register(new WhaticketLegacyChannel());
+    ChannelFactory.register(new WhatsAppCloudChannel());
+  } catch (error) {
+    ChannelFactory['logger'].error('Erro ao registrar canais', error);
+  }
+}
+
+// 🚀 Executar auto-registro
+registerDefaultChannels();
+
+export default ChannelFactory;
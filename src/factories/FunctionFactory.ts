@@ -1,6 +1,16 @@
 import { BaseFunction } from '../functions/base/BaseFunction';
+import { config } from '../config';
 import { createLogger } from '../utils/logger';
-import type { IBaseFunction, FunctionDefinition, FunctionContext, FunctionResult } from '../types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type {
+  IBaseFunction,
+  FunctionDefinition,
+  FunctionContext,
+  FunctionResult,
+  ToolCall,
+  ToolCallTiming,
+  ToolOutput
+} from '../types';
 
 // 🏭 Factory Pattern para funções WHMCS - Máxima Extensibilidade
 export class FunctionFactory {
@@ -38,6 +48,18 @@ export class FunctionFactory {
     args: any, 
     context?: FunctionContext
   ): Promise<FunctionResult> {
+    // Fila com assistant próprio só executa as funções liberadas na rota
+    const allowed = context?.assistantRoute?.functions;
+    if (allowed && !allowed.includes(name)) {
+      this.logger.warn(`🚫 Função não liberada para a fila: ${name}`, { route: context.assistantRoute.name });
+      
+      return {
+        success: false,
+        message: `❌ Função '${name}' não está disponível neste atendimento`,
+        error: 'Function not allowed'
+      };
+    }
+    
     const functionInstance = this.create(name);
     
     if (!functionInstance) {
@@ -48,9 +70,26 @@ export class FunctionFactory {
       };
     }
     
+    // Estourado o prazo, o modelo recebe um resultado de timeout (a função não é interrompida)
+    const timeoutMs = this.getTimeout(name);
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<FunctionResult>(resolve => {
+      timer = setTimeout(() => {
+        this.logger.warn(`⏱️ Função excedeu o prazo: ${name}`, { functionName: name, duration: timeoutMs });
+        
+        resolve({
+          success: false,
+          message: `⏱️ A função '${name}' não respondeu em ${timeoutMs / 1000}s. ` +
+            'O resultado é desconhecido: não repita ações que criam registros sem confirmar com o cliente.',
+          error: 'Function timeout',
+          data: { timedOut: true, timeoutMs }
+        });
+      }, timeoutMs);
+    });
+    
     try {
       // Usar executeWithLogging da BaseFunction para métricas
-      return await functionInstance.executeWithLogging(args, context);
+      return await Promise.race([functionInstance.executeWithLogging(args, context), timeout]);
     } catch (error) {
       this.logger.error(`Erro ao executar função ${name}`, error);
       
@@ -59,7 +98,80 @@ export class FunctionFactory {
         message: '❌ Erro interno ao executar função',
         error: error instanceof Error ? error.message : 'Erro desconhecido'
       };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  
+  // 🔧 Executar as function calls pedidas pelo modelo (em paralelo, até FUNCTION_CONCURRENCY por vez)
+  // Cada função recebe o contexto completo da conversa (contato, fila, thread, cliente verificado);
+  // source identifica o provedor de LLM que pediu a chamada
+  static async executeToolCalls(
+    toolCalls: ToolCall[],
+    context: FunctionContext | undefined,
+    source: string
+  ): Promise<{ outputs: ToolOutput[]; timings: ToolCallTiming[] }> {
+    const startTime = Date.now();
+    const timings: ToolCallTiming[] = [];
+    
+    const outputs = await mapWithConcurrency(toolCalls, config.functions.concurrency, async (toolCall): Promise<ToolOutput> => {
+      const callStart = Date.now();
+      const result = await this.executeToolCall(toolCall, context, source);
+      
+      timings.push({
+        name: toolCall.function.name,
+        toolCallId: toolCall.id,
+        duration: Date.now() - callStart,
+        success: result.success,
+        ...(result.error === 'Function timeout' ? { timedOut: true } : {})
+      });
+      
+      return {
+        tool_call_id: toolCall.id,
+        output: JSON.stringify(result)
+      };
+    });
+    
+    this.logger.info('Function calls concluídas', {
+      threadId: context?.threadId,
+      duration: Date.now() - startTime,
+      toolCalls: timings
+    });
+    
+    return { outputs, timings };
+  }
+  
+  // ⚡ Executar function call individual (argumentos em JSON, como vêm do modelo)
+  private static async executeToolCall(toolCall: ToolCall, context: FunctionContext | undefined, source: string): Promise<FunctionResult> {
+    const { name, arguments: argsString } = toolCall.function;
+    
+    this.logger.info(`Executando function: ${name}`, { 
+      functionName: name,
+      toolCallId: toolCall.id 
+    });
+    
+    let args: any;
+    try {
+      args = JSON.parse(argsString || '{}');
+    } catch (error) {
+      this.logger.error(`Erro ao parsear argumentos da função ${name}`, error);
+      
+      return {
+        success: false,
+        message: '❌ Erro ao processar argumentos da função',
+        error: 'Argumentos inválidos'
+      };
     }
+    
+    return await this.execute(name, args, {
+      ...context,
+      metadata: { ...context?.metadata, source, toolCallId: toolCall.id }
+    });
+  }
+  
+  // ⏱️ Prazo da função (FUNCTION_TIMEOUTS ou FUNCTION_TIMEOUT)
+  static getTimeout(name: string): number {
+    return config.functions.timeouts[name] || config.functions.timeout;
   }
   
   // 📋 Listar todas as funções disponíveis
@@ -78,11 +190,15 @@ export class FunctionFactory {
     return functionInstance.getInfo();
   }
   
-  // 🤖 Gerar definições para OpenAI Assistant
-  static getOpenAIFunctionDefinitions(): FunctionDefinition[] {
+  // 🤖 Gerar definições para OpenAI Assistant (names restringe às funções informadas)
+  static getOpenAIFunctionDefinitions(names?: string[]): FunctionDefinition[] {
     const definitions: FunctionDefinition[] = [];
     
     for (const [name, creator] of this.functions.entries()) {
+      if (names && !names.includes(name)) {
+        continue;
+      }
+      
       try {
         const instance = creator();
         const definition = instance.getOpenAIDefinition();
@@ -200,12 +316,14 @@ export function registerWHMCSFunctions() {
     const { GetClientInvoices } = require('../functions/GetClientInvoices');
     const { CheckServiceStatus } = require('../functions/CheckServiceStatus');
     const { CreateTicket } = require('../functions/CreateTicket');
+    const { RequestHumanAgent } = require('../functions/RequestHumanAgent');
     
     FunctionFactory.register('get_client_invoices', () => new GetClientInvoices());
     FunctionFactory.register('check_service_status', () => new CheckServiceStatus());
     FunctionFactory.register('create_ticket', () => new CreateTicket());
+    FunctionFactory.register('request_human_agent', () => new RequestHumanAgent());
     
-    FunctionFactory['logger'].info('✅ 3 funções WHMCS registradas com sucesso!');
+    FunctionFactory['logger'].info('✅ 4 funções WHMCS registradas com sucesso!');
     
   } catch (error) {
     FunctionFactory['logger'].error('Erro ao registrar funções WHMCS', error);
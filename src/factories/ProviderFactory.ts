@@ -0,0 +1,59 @@
+import { createLogger } from '../utils/logger';
+import { config } from '../config';
+import type { LLMProvider, TenantConfig } from '../types';
+
+// Cria o provedor com as credenciais OpenAI do tenant (vazio = credenciais do .env)
+export type LLMProviderCreator = (options: Partial<TenantConfig['openai']>) => LLMProvider;
+
+// 🏭 Registro de provedores de LLM - LLM_PROVIDER escolhe o backend usado pelos tenants
+export class ProviderFactory {
+  private static providers = new Map<string, LLMProviderCreator>();
+  private static logger = createLogger({ service: 'factory' });
+  
+  // 📝 Registrar provedor
+  static register(name: string, creator: LLMProviderCreator): void {
+    this.providers.set(name, creator);
+    this.logger.info(`✅ Provedor de LLM registrado: ${name}`);
+  }
+  
+  // 🎯 Criar o provedor configurado em LLM_PROVIDER
+  static create(options: Partial<TenantConfig['openai']> = {}, name = config.llm.provider): LLMProvider {
+    const creator = this.providers.get(name);
+    
+    if (!creator) {
+      throw new Error(`Provedor de LLM não registrado: ${name} (disponíveis: ${this.getAvailableProviders().join(', ')})`);
+    }
+    
+    return creator(options);
+  }
+  
+  // 📋 Listar provedores disponíveis
+  static getAvailableProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+  
+  // 🔍 Verificar se provedor existe
+  static hasProvider(name: string): boolean {
+    return this.providers.has(name);
+  }
+}
+
+// 🎉 Registrar provedores embutidos
+export function registerDefaultProviders() {
+  try {
+    const { OpenAIAssistantService } = require('../services/OpenAIAssistantService');
+    const { ChatCompletionsService } = require('../services/ChatCompletionsService');
+    const { FakeLLMService } = require('../services/FakeLLMService');
+    
+    ProviderFactory.register('assistants', options => new OpenAIAssistantService(options));
+    ProviderFactory.register('chat', options => new ChatCompletionsService(options));
+    ProviderFactory.register('fake', () => new FakeLLMService());
+  } catch (error) {
+    ProviderFactory['logger'].error('Erro ao registrar provedores de LLM', error);
+  }
+}
+
+// 🚀 Executar auto-registro
+registerDefaultProviders();
+
+export default ProviderFactory;
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { BaseFunction } from './base/BaseFunction';
-import { WHMCSService } from '../services/WHMCSService';
+import { tenantService } from '../services/TenantService';
+import { clientVerification } from '../services/ClientVerificationService';
 import { schemas } from '../utils/validators';
 import type { FunctionContext, FunctionResult, WHMCSClient, WHMCSService as WHMCSServiceType } from '../types';
 
@@ -33,7 +34,7 @@ export class CheckServiceStatus extends BaseFunction {
       // 🛡️ Validar argumentos
       const validated = this.validateArgs(args, schemas.checkServiceStatus);
       
-      const whmcsService = new WHMCSService();
+      const whmcsService = tenantService.getWHMCS(context?.tenantId);
       
       // 📋 1. Buscar cliente
       this.logger.info('Buscando cliente...', { identifier: validated.client_identifier });
@@ -46,6 +47,8 @@ export class CheckServiceStatus extends BaseFunction {
         );
       }
       
+      await clientVerification.verify(context?.userId, context?.contactNumber, client);
+      
       // 🌐 2. Buscar serviços
       this.logger.info('Buscando serviços...', { 
         clientId: client.id,
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { BaseFunction } from './base/BaseFunction';
-import { WHMCSService } from '../services/WHMCSService';
+import { tenantService } from '../services/TenantService';
+import { clientVerification } from '../services/ClientVerificationService';
 import { schemas } from '../utils/validators';
 import type { FunctionContext, FunctionResult, WHMCSClient } from '../types';
 
@@ -47,7 +48,7 @@ export class CreateTicket extends BaseFunction {
       // 🛡️ Validar argumentos
       const validated = this.validateArgs(args, schemas.createTicket);
       
-      const whmcsService = new WHMCSService();
+      const whmcsService = tenantService.getWHMCS(context?.tenantId);
       
       // 📋 1. Buscar cliente
       this.logger.info('Buscando cliente para criar ticket...', { 
@@ -62,6 +63,9 @@ export class CreateTicket extends BaseFunction {
         );
       }
       
+      // 🔐 Telefone do cadastro confere com o WhatsApp? (informado à equipe no ticket)
+      const verified = await clientVerification.verify(context?.userId, context?.contactNumber, client);
+      
       // 🎫 2. Criar ticket
       this.logger.info('Criando ticket de suporte...', { 
         clientId: client.id,
@@ -72,7 +76,7 @@ export class CreateTicket extends BaseFunction {
       const ticketResult = await whmcsService.createTicket({
         clientId: client.id,
         subject: validated.subject,
-        message: this.enhanceTicketMessage(validated.message, context),
+        message: this.enhanceTicketMessage(validated.message, client, verified, context),
         priority: validated.priority,
         department: validated.department
       });
@@ -83,7 +87,8 @@ export class CreateTicket extends BaseFunction {
           client, 
           ticketResult, 
           validated.subject,
-          validated.priority
+          validated.priority,
+          context
         );
         
         return this.createSuccessResult(response.message, {
@@ -120,7 +125,8 @@ export class CreateTicket extends BaseFunction {
     client: WHMCSClient,
     ticketResult: { ticketId?: number; message: string },
     subject: string,
-    priority: string
+    priority: string,
+    context?: FunctionContext
   ): { message: string } {
     
     const clientName = client.fullname || `${client.firstname} ${client.lastname}`.trim();
@@ -142,7 +148,13 @@ export class CreateTicket extends BaseFunction {
     
     // Informações sobre próximos passos
     message += `✅ *Próximos Passos:*\n`;
-    message += `• Nossa equipe será notificada automaticamente\n`;
+    // Fora do horário, informar quando a equipe verá o ticket
+    const hours = context?.businessHours;
+    if (hours && !hours.open && hours.nextOpenLabel) {
+      message += `• Estamos fora do horário de atendimento: nossa equipe verá seu ticket a partir de ${hours.nextOpenLabel}\n`;
+    } else {
+      message += `• Nossa equipe será notificada automaticamente\n`;
+    }
     message += `• Você receberá atualizações por email\n`;
     message += `• Tempo médio de resposta: ${this.getExpectedResponseTime(priority)}\n\n`;
     
@@ -167,14 +179,47 @@ export class CreateTicket extends BaseFunction {
     };
   }
   
-  // 📝 Enriquecer mensagem do ticket com contexto
-  private enhanceTicketMessage(originalMessage: string, context?: FunctionContext): string {
+  // 📝 Enriquecer mensagem do ticket com contexto (quem pediu, por onde e se o cliente foi confirmado)
+  private enhanceTicketMessage(
+    originalMessage: string,
+    client: WHMCSClient,
+    verified: boolean,
+    context?: FunctionContext
+  ): string {
     let enhancedMessage = originalMessage;
     
     // Adicionar contexto se disponível
     if (context) {
       enhancedMessage += '\n\n--- INFORMAÇÕES TÉCNICAS ---\n';
       
+      if (context.contactNumber) {
+        enhancedMessage += `Contato: ${context.contactName || 'Sem nome'} (${context.contactNumber})\n`;
+      }
+      
+      if (verified) {
+        enhancedMessage += `Cliente verificado: Sim (telefone do cadastro confere com o WhatsApp)\n`;
+      } else if (context.clientId && context.clientId !== Number(client.id)) {
+        enhancedMessage += `Cliente verificado: Não - o contato está verificado como cliente #${context.clientId}\n`;
+      } else {
+        enhancedMessage += `Cliente verificado: Não - telefone do cadastro difere do WhatsApp\n`;
+      }
+      
+      if (context.queueName || context.queueId) {
+        enhancedMessage += `Fila: ${context.queueName || 'Sem nome'}${context.queueId ? ` (#${context.queueId})` : ''}\n`;
+      }
+      
+      if (context.ticketId) {
+        enhancedMessage += `Ticket Whaticket: #${context.ticketId}\n`;
+      }
+      
+      if (context.companyId) {
+        enhancedMessage += `Empresa (Whaticket): ${context.companyId}\n`;
+      }
+      
+      if (context.threadId) {
+        enhancedMessage += `Thread: ${context.threadId}\n`;
+      }
+      
       if (context.sessionId) {
         enhancedMessage += `Session ID: ${context.sessionId}\n`;
       }
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { BaseFunction } from './base/BaseFunction';
-import { WHMCSService } from '../services/WHMCSService';
+import type { WHMCSService } from '../services/WHMCSService';
+import { tenantService } from '../services/TenantService';
+import { clientVerification } from '../services/ClientVerificationService';
 import { schemas } from '../utils/validators';
 import type { FunctionContext, FunctionResult, WHMCSClient, WHMCSInvoice } from '../types';
 
@@ -48,7 +50,7 @@ export class GetClientInvoices extends BaseFunction {
       // 🛡️ Validar argumentos
       const validated = this.validateArgs(args, schemas.getClientInvoices);
       
-      const whmcsService = new WHMCSService();
+      const whmcsService = tenantService.getWHMCS(context?.tenantId);
       
       // 📋 1. Buscar cliente
       this.logger.info('Buscando cliente...', { identifier: validated.client_identifier });
@@ -61,6 +63,8 @@ export class GetClientInvoices extends BaseFunction {
         );
       }
       
+      await clientVerification.verify(context?.userId, context?.contactNumber, client);
+      
       // 📄 2. Buscar faturas
       this.logger.info('Buscando faturas...', { 
         clientId: client.id, 
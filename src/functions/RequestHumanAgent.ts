@@ -0,0 +1,90 @@
+import { BaseFunction } from './base/BaseFunction';
+import { handoffService } from '../services/HandoffService';
+import { schemas } from '../utils/validators';
+import type { FunctionContext, FunctionResult } from '../types';
+
+// 🙋 Função para transferir a conversa para um atendente humano
+export class RequestHumanAgent extends BaseFunction {
+  readonly name = 'request_human_agent';
+  readonly description = 'Transfere a conversa para um atendente humano. Use quando o cliente pedir para falar com uma pessoa ou quando o problema não puder ser resolvido pelo assistente';
+  
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      reason: {
+        type: 'string',
+        description: 'Motivo da transferência (ex: "cliente pediu atendente", "contestação de cobrança")',
+        maxLength: 200
+      },
+      summary: {
+        type: 'string',
+        description: 'Resumo da conversa para o atendente: quem é o cliente, o que ele precisa e o que já foi verificado',
+        maxLength: 2000
+      }
+    },
+    required: ['reason', 'summary']
+  };
+  
+  async execute(args: any, context?: FunctionContext): Promise<FunctionResult> {
+    try {
+      // 🛡️ Validar argumentos
+      const validated = this.validateArgs(args, schemas.requestHumanAgent);
+      
+      if (!context?.userId || !context.channel) {
+        return this.createErrorResult(
+          '❌ Não foi possível identificar a conversa para transferir. Oriente o cliente a entrar em contato pelos canais de suporte.'
+        );
+      }
+      
+      // 🔀 Transferir ticket e pausar o bot para o contato
+      const result = await handoffService.request(
+        {
+          channel: context.channel,
+          contactId: context.userId,
+          contactNumber: context.contactNumber,
+          contactName: context.contactName,
+          ticketId: context.ticketId ? Number(context.ticketId) : undefined,
+          tenantId: context.tenantId
+        },
+        {
+          reason: validated.reason,
+          summary: validated.summary,
+          requestedBy: 'assistant'
+        }
+      );
+      
+      if (!result.success) {
+        return this.createErrorResult(
+          '❌ A transferência para um atendente não está disponível agora. Oriente o cliente a entrar em contato pelos canais de suporte.',
+          result.error
+        );
+      }
+      
+      if (result.scheduledLabel) {
+        return this.createSuccessResult(
+          `🕐 Fora do horário de atendimento humano. A transferência foi agendada e um atendente assume a conversa a partir de ${result.scheduledLabel}. Informe isso ao cliente e continue ajudando no que for possível até lá.`,
+          {
+            ticketId: result.state.ticketId,
+            scheduledFor: result.state.scheduledFor
+          }
+        );
+      }
+      
+      return this.createSuccessResult(
+        '✅ Conversa transferida. Informe ao cliente que um atendente humano vai continuar o atendimento por aqui em breve.',
+        {
+          ticketId: result.state.ticketId,
+          queueId: result.state.queueId
+        }
+      );
+      
+    } catch (error) {
+      this.logger.error('Erro ao transferir para atendente', error);
+      
+      return this.createErrorResult(
+        '❌ Erro interno ao transferir para atendente. Tente novamente.',
+        error instanceof Error ? error.message : undefined
+      );
+    }
+  }
+}
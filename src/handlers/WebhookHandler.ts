@@ -1,55 +1,121 @@
+import { createHash } from 'crypto';
 import { Request, Response } from 'express';
-import { OpenAIAssistantService } from '../services/OpenAIAssistantService';
 import { cacheService, CacheKeys, CacheStrategies } from '../services/CacheService';
+import { QueueService } from '../services/QueueService';
+import { messageDebouncer } from '../services/MessageDebouncer';
+import { whaticketClient } from '../services/WhaticketClient';
+import { outboxService } from '../services/OutboxService';
+import { handoffService } from '../services/HandoffService';
+import { botPauseService } from '../services/BotPauseService';
+import { businessHoursService } from '../services/BusinessHoursService';
+import { conversationRules } from '../services/ConversationRulesService';
+import { rateLimitService } from '../services/RateLimitService';
+import { tenantService } from '../services/TenantService';
+import { assistantRouting } from '../services/AssistantRoutingService';
+import { clientVerification } from '../services/ClientVerificationService';
+import { usageService } from '../services/UsageService';
+import { chatCommands } from '../services/ChatCommandService';
+import { ChannelFactory } from '../factories/ChannelFactory';
 import { createLogger } from '../utils/logger';
-import { schemas, validators } from '../utils/validators';
 import { config } from '../config';
-import type { WhaTicketWebhook } from '../types';
+import type {
+  AssistantRoute,
+  ChannelAdapter,
+  HandoffRequester,
+  InboundMessage,
+  InboundMessageJob,
+  QueueJob,
+  TenantConfig
+} from '../types';
 
-// 📱 Handler para webhooks do WhaTicket (WhatsApp)
+// Resultado do aceite de uma mensagem do webhook
+interface AcceptResult {
+  status: 'accepted' | 'ignored' | 'duplicate' | 'unavailable';
+  reason?: string;
+  messageId?: string;
+  jobId?: string;
+}
+
+// 📱 Handler para webhooks dos canais de entrada (Whaticket e outros adapters)
 export class WebhookHandler {
-  private openaiService: OpenAIAssistantService;
+  private queue: QueueService<InboundMessageJob>;
   private logger = createLogger({ service: 'webhook' });
   
   constructor() {
-    this.openaiService = new OpenAIAssistantService();
+    this.queue = new QueueService<InboundMessageJob>('inbound');
+  }
+  
+  // ▶️ Iniciar workers da fila de mensagens recebidas
+  startWorkers(): void {
+    this.queue.process(
+      job => this.processQueuedMessage(job),
+      { onDead: job => this.handleDeadMessage(job) }
+    );
+  }
+  
+  // ⏹️ Parar workers (graceful shutdown)
+  async stopWorkers(): Promise<void> {
+    await this.queue.stop();
+  }
+  
+  // 🤝 Handshake de verificação do webhook (GET) - ex: hub.challenge da Cloud API
+  verifyChallenge(req: Request, res: Response, channelName: string): void {
+    const adapter = ChannelFactory.get(channelName);
+    
+    if (!adapter) {
+      res.status(404).json({ error: 'Unknown channel', available: ChannelFactory.getAvailableChannels() });
+      return;
+    }
+    
+    if (!adapter.verifyChallenge) {
+      res.json({ status: 'ok', channel: adapter.name, message: 'Webhook ativo e funcionando' });
+      return;
+    }
+    
+    const challenge = adapter.verifyChallenge(req.query);
+    if (challenge === null) {
+      this.logger.warn('Verificação de webhook recusada', { channel: adapter.name, requestId: req.requestId });
+      res.status(403).json({ error: 'Verification failed' });
+      return;
+    }
+    
+    this.logger.info('✅ Webhook verificado', { channel: adapter.name });
+    res.status(200).type('text/plain').send(challenge);
   }
   
   // 🎯 Processar webhook principal
-  async handle(req: Request, res: Response): Promise<void> {
+  // channelName vem da rota /webhook/:channel; sem ele, os canais padrão são testados em ordem.
+  // tenantId vem da rota /webhook/:channel/:tenant; sem ele, o tenant é resolvido pelo companyId
+  async handle(req: Request, res: Response, channelName?: string, tenantId?: string): Promise<void> {
     const startTime = Date.now();
     const requestId = `webhook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     try {
-      this.logger.webhookReceived('WhaTicket', 'message', { requestId });
-      
-      // 🛡️ 1. Validar assinatura do webhook (opcional - mais flexível para Whaticket)
-      if (config.webhook.secret && config.webhook.secret !== 'default-secret-change-in-production') {
-        // Só valida assinatura se o header estiver presente
-        const signature = req.headers['x-signature'] || req.headers['signature'];
-        if (signature) {
-          const isValid = this.validateWebhookSignature(req);
-          if (!isValid) {
-            this.logger.warn('Webhook com assinatura inválida rejeitado', { requestId, signature });
-            res.status(401).json({ error: 'Invalid signature' });
-            return;
-          }
-          this.logger.debug('Webhook com assinatura válida', { requestId });
-        } else {
-          this.logger.debug('Webhook sem assinatura - permitindo (Whaticket)', { requestId });
+      const routeTenant = tenantId ? tenantService.get(tenantId) : undefined;
+      if (tenantId && !routeTenant) {
+        res.status(404).json({ error: 'Unknown tenant' });
+        return;
+      }
+      
+      let adapters: ChannelAdapter[];
+      if (channelName) {
+        const adapter = ChannelFactory.get(channelName);
+        if (!adapter) {
+          res.status(404).json({ error: 'Unknown channel', available: ChannelFactory.getAvailableChannels() });
+          return;
         }
+        adapters = [adapter];
       } else {
-        this.logger.debug('Validação de assinatura desabilitada', { requestId });
+        adapters = ChannelFactory.getDefaults();
       }
       
-      // 📝 2. Validar estrutura do payload com logs detalhados
-      this.logger.info('🔍 PAYLOAD COMPLETO RECEBIDO DO WHATICKET:', { 
+      this.logger.webhookReceived(channelName || 'default', 'message', { requestId });
+      
+      this.logger.info('🔍 PAYLOAD COMPLETO RECEBIDO:', { 
         requestId, 
+        channel: channelName,
         payload: JSON.stringify(req.body, null, 2),
         payloadKeys: Object.keys(req.body || {}),
-        hasTicket: !!req.body?.ticket,
-        hasMessage: !!req.body?.message,
-        hasEvent: !!req.body?.event,
         headers: {
           'content-type': req.headers['content-type'],
           'user-agent': req.headers['user-agent'],
@@ -57,8 +123,18 @@ export class WebhookHandler {
         }
       });
       
-      const webhookData = this.validateWebhookPayload(req.body);
-      if (!webhookData) {
+      // 📝 1. Identificar o canal pelo payload
+      let adapter: ChannelAdapter | undefined;
+      let payload: any = null;
+      for (const candidate of adapters) {
+        payload = candidate.parse(req.body);
+        if (payload) {
+          adapter = candidate;
+          break;
+        }
+      }
+      
+      if (!adapter) {
         this.logger.warn('Webhook com payload inválido rejeitado', { 
           requestId, 
           payload: req.body,
@@ -69,49 +145,65 @@ export class WebhookHandler {
           error: 'Invalid payload', 
           debug: {
             receivedKeys: Object.keys(req.body || {}),
-            expectedFormat: 'Whaticket webhook format'
+            expectedFormat: adapters.map(candidate => candidate.name)
           }
         });
         return;
       }
       
-      // 🚫 3. Filtrar eventos relevantes (apenas mensagens do cliente)
-      if (!this.shouldProcessMessage(webhookData)) {
-        this.logger.debug('Webhook ignorado (não é mensagem de cliente)', { 
-          requestId, 
-          event: webhookData.event 
-        });
-        res.status(200).json({ status: 'ignored', reason: 'not a client message' });
+      // 🛡️ 2. Validar assinatura do webhook (esquema definido pelo canal)
+      if (!adapter.verifySignature(req)) {
+        this.logger.warn('Webhook com assinatura inválida rejeitado', { requestId, channel: adapter.name });
+        res.status(401).json({ error: 'Invalid signature' });
         return;
       }
       
-      // 🔄 4. Verificar duplicação (idempotência)
-      const messageId = webhookData.message?.id;
-      if (messageId && await this.isDuplicateMessage(messageId)) {
-        this.logger.debug('Mensagem duplicada ignorada', { requestId, messageId });
-        res.status(200).json({ status: 'duplicate', messageId });
-        return;
+      // ✂️ 3. Um webhook pode trazer várias mensagens (ex: Cloud API)
+      const items = adapter.split ? adapter.split(payload) : [payload];
+      const results: AcceptResult[] = [];
+      for (const [index, item] of items.entries()) {
+        const itemRequestId = items.length > 1 ? `${requestId}_${index}` : requestId;
+        results.push(await this.acceptMessage(adapter, item, itemRequestId, routeTenant));
       }
       
-      // ⚡ 5. Processar mensagem de forma assíncrona
-      this.processMessageAsync(webhookData, requestId).catch(error => {
-        this.logger.error('Erro no processamento assíncrono', error, { requestId });
-      });
+      // 📤 4. Responder rapidamente ao webhook
+      // Sem fila não há garantia de entrega: pedir ao provedor que reenvie (as já aceitas caem no dedup)
+      if (results.some(result => result.status === 'unavailable')) {
+        res.status(503).json({ error: 'Queue unavailable', requestId });
+        return;
+      }
       
-      // 📤 6. Responder rapidamente ao webhook
       const duration = Date.now() - startTime;
-      this.logger.info('Webhook aceito para processamento', { 
-        requestId, 
+      this.logger.info('Webhook processado', {
+        requestId,
         duration,
-        messageId 
+        channel: adapter.name,
+        results: results.map(({ status, messageId, jobId }) => ({ status, messageId, jobId }))
       });
       
-      res.status(200).json({ 
-        status: 'accepted', 
-        requestId,
-        messageId,
-        processingAsync: true 
-      });
+      if (results.length === 0) {
+        res.status(200).json({ status: 'ignored', reason: 'no messages' });
+        return;
+      }
+      
+      if (results.length > 1) {
+        res.status(200).json({ status: 'processed', requestId, results, processingAsync: true });
+        return;
+      }
+      
+      const [result] = results;
+      if (result.status === 'accepted') {
+        res.status(200).json({ 
+          status: 'accepted', 
+          requestId,
+          messageId: result.messageId,
+          jobId: result.jobId,
+          debounced: messageDebouncer.enabled,
+          processingAsync: true 
+        });
+      } else {
+        res.status(200).json(result);
+      }
       
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -124,394 +216,543 @@ export class WebhookHandler {
     }
   }
   
-  // 🔐 Validar assinatura do webhook
-  private validateWebhookSignature(req: Request): boolean {
-    try {
-      const signature = req.headers['x-signature'] || req.headers['signature'];
-      
-      if (!signature || typeof signature !== 'string') {
-        return false;
+  // 📨 Filtrar, deduplicar e enfileirar uma mensagem do webhook
+  private async acceptMessage(adapter: ChannelAdapter, item: any, requestId: string, routeTenant?: TenantConfig): Promise<AcceptResult> {
+    // 🧑‍💼 Mensagem enviada do nosso lado (fromMe): um atendente assumiu a conversa?
+    if (adapter.isFromAgent?.(item)) {
+      return await this.recordAgentActivity(adapter, item, requestId, routeTenant);
+    }
+    
+    // 🚫 Filtrar eventos relevantes (apenas mensagens do cliente)
+    if (!adapter.shouldProcess(item)) {
+      this.logger.debug('Mensagem ignorada (não é mensagem de cliente)', { requestId, channel: adapter.name });
+      return { status: 'ignored', reason: 'not a client message' };
+    }
+    
+    const contactId = adapter.identifyContact(item);
+    if (!contactId) {
+      this.logger.warn('Mensagem ignorada (contato não identificado)', { requestId, channel: adapter.name });
+      return { status: 'ignored', reason: 'contact not identified' };
+    }
+    
+    // 🏢 Tenant da conversa - empresa sem tenant não é atendida (evita misturar dados entre empresas)
+    const message = adapter.normalize(item, contactId);
+    if (!this.assignTenant(message, routeTenant)) {
+      this.logger.warn('Mensagem ignorada (empresa sem tenant configurado)', { requestId, companyId: message.companyId });
+      return { status: 'ignored', reason: 'unknown tenant' };
+    }
+    
+    const userId = message.contactId;
+    
+    // 🚦 Regras de conversa (filas, grupos, números, conexões) - antes de qualquer processamento
+    const decision = conversationRules.evaluate(message);
+    if (!decision.allowed) {
+      this.logger.info('Mensagem ignorada por regra de conversa', {
+        requestId,
+        userId,
+        rule: decision.rule || 'default',
+        fila: message.queueName,
+        filaId: message.queueId,
+        isGroup: message.isGroup,
+        whatsappId: message.whatsappId?.toString()
+      });
+      return { status: 'ignored', reason: `rule: ${decision.rule || 'default'}` };
+    }
+    
+    if (decision.rule) {
+      this.logger.debug('Mensagem permitida por regra de conversa', { requestId, userId, rule: decision.rule });
+    }
+    
+    // 🚫 Número bloqueado por abuso (BLOCKED_NUMBERS ou admin)
+    if (await rateLimitService.isBlocked(message)) {
+      this.logger.info('Mensagem ignorada (contato bloqueado)', { requestId, userId });
+      return { status: 'ignored', reason: 'blocked' };
+    }
+    
+    // 🔄 Reservar a mensagem (idempotência) - SET NX na chegada, antes de enfileirar
+    const messageId = message.messageId;
+    const dedup = await this.reserveMessage(message, requestId);
+    if (dedup.duplicate) {
+      this.logger.info('Mensagem duplicada ignorada', { requestId, messageId, dedupKey: dedup.key });
+      return { status: 'duplicate', messageId };
+    }
+    
+    // ⏱️ Limite de mensagens por contato (reenvios já caíram no dedup e não contam)
+    const rateLimit = await rateLimitService.checkContact(userId);
+    if (!rateLimit.allowed) {
+      if (rateLimit.notify) {
+        await this.sendRateLimitNotice(message, rateLimit.resetTime, requestId);
       }
-      
-      const payload = JSON.stringify(req.body);
-      const validation = validators.webhookSignature(payload, signature, config.webhook.secret);
-      
-      return validation.isValid;
-    } catch (error) {
-      this.logger.error('Erro ao validar assinatura do webhook', error);
-      return false;
+      return { status: 'ignored', reason: 'rate limited', messageId };
     }
-  }
-  
-  // ✅ Validar payload do webhook - suporte ao formato REAL do Whaticket
-  private validateWebhookPayload(body: any): WhaTicketWebhook | null {
+    
+    // 📬 Enfileirar mensagem (fila durável - sobrevive a restart/deploy)
+    // Agrupada por contato: mensagens do mesmo usuário são processadas em ordem, uma por vez
+    const receivedAt = new Date().toISOString();
+    let jobId: string | undefined;
     try {
-      // 1. Tentar validação com formato REAL do Whaticket primeiro
-      const realFormatResult = schemas.whaticketRealWebhook.safeParse(body);
-      if (realFormatResult.success) {
-        this.logger.info('✅ Payload validado com formato REAL do Whaticket', {
-          filaescolhida: body.filaescolhida,
-          sender: body.sender,
-          mensagem: body.mensagem?.substring(0, 50) + '...'
+      if (messageDebouncer.enabled) {
+        // ⏳ Janela de debounce: só o primeiro da rajada agenda o flush
+        const { flushAt, scheduleFlush } = await messageDebouncer.append(userId, {
+          requestId,
+          message,
+          receivedAt
         });
-        return realFormatResult.data as any;
-      }
-      
-      // 2. Tentar validação com formato antigo (compatibilidade)
-      const oldFormatResult = schemas.whaTicketWebhook.safeParse(body);
-      if (oldFormatResult.success) {
-        this.logger.info('✅ Payload validado com formato ANTIGO do Whaticket');
-        return oldFormatResult.data;
-      }
-      
-      // 3. Log detalhado dos erros e tentar fallback inteligente
-      this.logger.warn('Ambas validações falharam, analisando payload', {
-        realFormatErrors: realFormatResult.error.errors,
-        oldFormatErrors: oldFormatResult.error.errors,
-        receivedKeys: Object.keys(body || {})
-      });
-      
-      // 4. Fallback inteligente: aceitar se tiver campos do Whaticket
-      if (body && (body.sender || body.mensagem || body.chamadoId || body.filaescolhida)) {
-        this.logger.info('✅ Usando fallback para formato Whaticket real');
-        return body as any;
-      }
-      
-      // 5. Fallback antigo mantido
-      if (body && (body.message || body.event || body.ticket)) {
-        this.logger.info('✅ Usando fallback para formato antigo');
-        return body as WhaTicketWebhook;
+        
+        if (scheduleFlush) {
+          const job = await this.queue.enqueue(
+            { requestId, userId, receivedAt, debounced: true },
+            { groupId: userId, delay: Math.max(flushAt - Date.now(), 0) }
+          );
+          jobId = job.id;
+        }
+      } else {
+        const job = await this.queue.enqueue(
+          { requestId, userId, receivedAt, message },
+          { groupId: userId }
+        );
+        jobId = job.id;
       }
-      
-      return null;
     } catch (error) {
-      this.logger.error('Erro na validação do payload do webhook', error, {
-        payload: body,
-        payloadType: typeof body
-      });
-      return null;
+      // Liberar a reserva para o reenvio do provedor não cair no dedup
+      await cacheService.del(dedup.key, CacheStrategies.webhook);
+      this.logger.error('Falha ao enfileirar mensagem', error, { requestId, messageId });
+      return { status: 'unavailable', messageId };
     }
+    
+    this.logger.info('Mensagem aceita para processamento', {
+      requestId,
+      channel: message.channel,
+      messageId,
+      userId,
+      jobId,
+      debounced: messageDebouncer.enabled
+    });
+    
+    return { status: 'accepted', messageId, jobId };
   }
   
-  // 🎯 Verificar se deve processar a mensagem - formato REAL do Whaticket
-  private shouldProcessMessage(webhookData: any): boolean {
-    // Formato REAL do Whaticket: usar campo 'mensagem'
-    if (webhookData.mensagem && webhookData.mensagem.trim().length > 0) {
-      // Se fromMe está definido, só processar se não for nossa mensagem
-      if (webhookData.fromMe === true) {
-        return false;
-      }
-      this.logger.debug('✅ Mensagem do formato Whaticket real será processada', {
-        mensagem: webhookData.mensagem.substring(0, 50),
-        sender: webhookData.sender,
-        fila: webhookData.filaescolhida
-      });
-      return true;
+  // 🧑‍💼 Registrar resposta do atendente (pausa o bot) ou comando de pausa/retomada
+  private async recordAgentActivity(adapter: ChannelAdapter, item: any, requestId: string, routeTenant?: TenantConfig): Promise<AcceptResult> {
+    const contactId = adapter.identifyContact(item);
+    if (!contactId) {
+      return { status: 'ignored', reason: 'contact not identified' };
     }
     
-    // Formato antigo: usar message.body (compatibilidade)
-    if (webhookData.message?.body && webhookData.message.body.trim().length > 0) {
-      if (webhookData.message.fromMe === true) {
-        return false;
-      }
-      this.logger.debug('✅ Mensagem do formato antigo será processada');
-      return true;
+    const message = adapter.normalize(item, contactId);
+    if (!this.assignTenant(message, routeTenant)) {
+      return { status: 'ignored', reason: 'unknown tenant' };
     }
     
-    // Processar também eventos específicos
-    if (webhookData.event && ['message', 'message:new', 'message:received'].includes(webhookData.event)) {
-      return true;
+    const userId = message.contactId;
+    try {
+      const activity = await botPauseService.recordAgentActivity(message);
+      
+      this.logger.debug('Mensagem enviada pelo atendente registrada', { requestId, userId, activity });
+      return { status: 'ignored', reason: `agent message (${activity})` };
+    } catch (error) {
+      this.logger.error('Erro ao registrar mensagem do atendente', error, { requestId, userId });
+      return { status: 'ignored', reason: 'agent message' };
     }
-    
-    // Processar ações do Whaticket
-    if (webhookData.acao && ['start', 'message'].includes(webhookData.acao)) {
-      return true;
+  }
+  
+  // 🏢 Atribuir a mensagem ao tenant (rota do webhook ou companyId) e isolar o contactId
+  private assignTenant(message: InboundMessage, routeTenant?: TenantConfig): boolean {
+    const tenant = routeTenant || tenantService.resolve(message.companyId);
+    if (!tenant) {
+      return false;
     }
     
-    return false;
+    message.tenantId = tenant.id;
+    message.contactId = tenantService.scopeContactId(tenant.id, message.contactId);
+    return true;
   }
   
-  // 🔄 Verificar mensagem duplicada
-  private async isDuplicateMessage(messageId: string): Promise<boolean> {
-    const cacheKey = CacheKeys.webhookResponse(messageId);
-    const cached = await cacheService.get(cacheKey);
-    return cached.hit;
+  // 🔑 Chaves de deduplicação derivadas da mensagem
+  // Com messageId usa o próprio id; sem id (formato REAL do Whaticket) usa
+  // chamado + remetente + hash do texto + janela de tempo. A janela anterior
+  // também é consultada para um reenvio na virada não passar
+  private buildDedupKeys(message: InboundMessage): { current: string; previous?: string } {
+    if (message.messageId) {
+      return { current: CacheKeys.webhookDedup(`msg:${message.channel}:${message.messageId}`) };
+    }
+    
+    const sender = (message.contactNumber || '').replace(/\D/g, '');
+    const bodyHash = createHash('sha256')
+      .update(message.text)
+      .digest('hex')
+      .substring(0, 16);
+      
+    const timestamp = message.timestamp || Date.now();
+    const bucket = Math.floor(timestamp / (config.webhook.dedupBucket * 1000));
+    const fingerprint = `${message.channel}:${message.ticketId || ''}:${sender}:${bodyHash}`;
+    
+    return {
+      current: CacheKeys.webhookDedup(`${fingerprint}:${bucket}`),
+      previous: CacheKeys.webhookDedup(`${fingerprint}:${bucket - 1}`)
+    };
   }
   
-  // ⚡ Processar mensagem de forma assíncrona - mais resiliente
-  private async processMessageAsync(webhookData: WhaTicketWebhook, requestId: string): Promise<void> {
-    const startTime = Date.now();
+  // 🔄 Reservar mensagem atomicamente (SET NX) - duplicate = true se já foi recebida
+  private async reserveMessage(message: InboundMessage, requestId: string): Promise<{ duplicate: boolean; key: string }> {
+    const keys = this.buildDedupKeys(message);
+    const options = { ...CacheStrategies.webhook, ttl: config.webhook.dedupTtl };
+    
+    if (keys.previous && await cacheService.exists(keys.previous, options)) {
+      return { duplicate: true, key: keys.current };
+    }
     
     try {
-      // Mais flexível: tentar extrair dados mesmo que parciais
-      const message = webhookData.message;
-      const ticket = webhookData.ticket;
-      
-      this.logger.info('🔍 ANALISANDO DADOS DO WEBHOOK (FORMATO REAL):', {
+      const reserved = await cacheService.setIfNotExists(keys.current, {
         requestId,
-        // Formato REAL do Whaticket
-        sender: webhookData.sender,
-        mensagem: webhookData.mensagem?.substring(0, 100),
-        chamadoId: webhookData.chamadoId,
-        filaescolhida: webhookData.filaescolhida,
-        filaescolhidaid: webhookData.filaescolhidaid,
-        name: webhookData.name,
-        fromMe: webhookData.fromMe,
-        // Formato antigo (compatibilidade)
-        originalMessage: message,
-        originalTicket: ticket,
-        webhookEvent: webhookData.event
-      });
+        receivedAt: new Date().toISOString()
+      }, options);
       
-      // Verificar dados mínimos - formato REAL do Whaticket
-      if (!webhookData.mensagem && !message?.body && !webhookData.event && !webhookData.acao) {
-        throw new Error('Dados insuficientes: sem mensagem, message.body, event ou acao');
+      return { duplicate: !reserved, key: keys.current };
+    } catch (error) {
+      // Sem Redis a fila também falha e o webhook responde 503
+      this.logger.error('Erro ao reservar mensagem para deduplicação', error, { requestId });
+      return { duplicate: false, key: keys.current };
+    }
+  }
+  
+  // 📬 Processar job da fila - erros são relançados para o retry da fila
+  private async processQueuedMessage(job: QueueJob<InboundMessageJob>): Promise<void | { delay: number }> {
+    const { requestId } = job.data;
+    
+    if (!job.data.debounced) {
+      const { message } = job.data;
+      return await this.processMessage(message, message.text, requestId, job);
+    }
+    
+    // ⏳ Flush da janela de debounce: coletar a rajada uma única vez e guardar no job
+    if (!job.data.batch) {
+      const { pendingUntil, messages } = await messageDebouncer.collect(job.data.userId);
+      
+      if (pendingUntil) {
+        // Chegaram mensagens depois do agendamento - a janela foi estendida
+        return { delay: Math.max(pendingUntil - Date.now(), 0) };
       }
       
-      // 🆔 Identificar usuário único (usando dados diretos do webhook)
-      const userId = this.extractUserId(webhookData);
+      if (messages.length === 0) {
+        this.logger.debug('Janela de debounce vazia (já processada)', { requestId, userId: job.data.userId });
+        return;
+      }
       
-      this.logger.info('Processando mensagem do cliente (FORMATO REAL)', {
+      job.data.batch = messages;
+      await this.queue.update(job);
+      await messageDebouncer.acknowledge(job.data.userId, messages.length);
+    }
+    
+    const batch = job.data.batch;
+    const lastMessage = batch[batch.length - 1];
+    const messageBody = batch.map(item => item.message.text).join('\n');
+    
+    this.logger.info(`Processando ${batch.length} mensagens agrupadas pelo debounce`, {
+      requestId,
+      userId: job.data.userId,
+      requestIds: batch.map(item => item.requestId)
+    });
+    
+    await this.processMessage(lastMessage.message, messageBody, lastMessage.requestId, job);
+  }
+  
+  // ⚡ Processar mensagem do cliente com o assistant e responder
+  private async processMessage(
+    message: InboundMessage,
+    messageBody: string,
+    requestId: string,
+    job: QueueJob<InboundMessageJob>
+  ): Promise<void> {
+    const startTime = Date.now();
+    const userId = message.contactId;
+    
+    try {
+      this.logger.info('Processando mensagem do cliente', {
         requestId,
         userId,
-        // Dados do formato REAL do Whaticket
-        sender: webhookData.sender,
-        chamadoId: webhookData.chamadoId,
-        messageLength: webhookData.mensagem?.length || message?.body?.length || 0,
-        fila: webhookData.filaescolhida,
-        filaId: webhookData.filaescolhidaid
+        channel: message.channel,
+        ticketId: message.ticketId,
+        messageLength: messageBody.length,
+        fila: message.queueName,
+        filaId: message.queueId
       });
       
-      // 🤖 Processar com OpenAI Assistant - usar dados corretos
-      const messageBody = webhookData.mensagem || message?.body || `Evento: ${webhookData.event || webhookData.acao}`;
-      const contactNumber = webhookData.sender || webhookData.ticketData?.contact?.number || ticket?.contact?.number || 'unknown';
-      const contactName = webhookData.name || webhookData.ticketData?.contact?.name || ticket?.contact?.name || 'Usuario';
-      
-      const response = await this.openaiService.processMessage(
-        messageBody,
-        userId,
-        {
-          sessionId: requestId,
-          userId,
-          metadata: {
-            source: 'whaticket',
-            // Dados do formato REAL
-            messageId: webhookData.chamadoId?.toString() || message?.id || 'unknown',
-            contactNumber,
-            contactName,
-            whatsappId: String(webhookData.defaultWhatsapp_x || webhookData.ticketData?.whatsapp?.id || 1),
-            queueName: webhookData.filaescolhida || 'Geral',
-            queueId: String(webhookData.filaescolhidaid || webhookData.queueId || 1),
-            companyId: String(webhookData.companyId || 1),
-            ticketStatus: webhookData.ticketData?.status || 'pending',
-            event: webhookData.event || webhookData.acao || 'message'
-          }
-        }
-      );
+      // 🔁 Retry com a resposta já salva: sem repetir as verificações nem o run pago
+      job.data.progress = job.data.progress || {};
+      const progress = job.data.progress;
+      if (progress.response === undefined && !await this.runAssistant(message, messageBody, requestId, job)) {
+        return;
+      }
       
-      // 📤 Enviar resposta se processamento foi bem-sucedido
-      if (response.success && response.response) {
-        // Criar objeto de resposta com dados do formato REAL do Whaticket
-        const responseData = {
-          contactNumber,
-          contactName,
-          chamadoId: webhookData.chamadoId,
-          filaescolhida: webhookData.filaescolhida,
-          // Manter compatibilidade com formato antigo
-          ticketData: webhookData.ticketData || ticket
-        };
-        
-        await this.sendResponseToWhatsApp(
-          responseData,
-          response.response,
-          requestId
-        );
-        
-        // 💾 Cachear para evitar duplicação
-        const messageId = message?.id || requestId;
-        const cacheKey = CacheKeys.webhookResponse(messageId);
-        await cacheService.set(cacheKey, { 
-          processed: true, 
-          requestId,
-          response: response.response 
-        }, CacheStrategies.webhook);
-        
-      } else {
-        this.logger.error('Falha no processamento da mensagem', undefined, {
-          requestId,
-          userId,
-          error: response.error
-        });
-        
-        // Enviar mensagem de erro amigável
-        const errorResponseData = {
-          contactNumber,
-          contactName,
-          chamadoId: webhookData.chamadoId
-        };
-        await this.sendErrorResponse(errorResponseData, requestId);
+      // 💰 Tokens da resposta (uma vez só, mesmo que a outbox falhe depois)
+      if (progress.usage && !progress.usageRecorded) {
+        await usageService.record(message, progress.usage);
+        progress.usageRecorded = true;
       }
       
+      // 📤 Gravar resposta na outbox (envio com retry próprio) a partir da primeira parte que faltou
+      await outboxService.enqueue(message, progress.response, requestId, {
+        skipParts: progress.partsQueued,
+        onPartQueued: () => {
+          progress.partsQueued = (progress.partsQueued || 0) + 1;
+        }
+      });
+      
       const duration = Date.now() - startTime;
       this.logger.info('Processamento assíncrono concluído', {
         requestId,
         userId,
         duration,
-        success: response.success
+        parts: progress.partsQueued
       });
       
     } catch (error) {
       const duration = Date.now() - startTime;
       this.logger.error('Erro no processamento assíncrono da mensagem', error, {
         requestId,
-        duration
+        jobId: job.id,
+        attempt: job.attempts + 1,
+        duration,
+        partsQueued: job.data.progress?.partsQueued
       });
-      
-      // Tentar enviar mensagem de erro genérica
-      const errorData = {
-        contactNumber: webhookData.sender || webhookData.ticketData?.contact?.number || 'unknown',
-        contactName: webhookData.name || webhookData.ticketData?.contact?.name || 'Usuario',
-        chamadoId: webhookData.chamadoId
-      };
-      await this.sendErrorResponse(errorData, requestId);
+      // O progresso em job.data é gravado pela fila junto com a falha (o retry continua dele)
+      throw error;
     }
   }
   
-  // 🆔 Extrair ID único do usuário - formato REAL do Whaticket
-  private extractUserId(webhookData: any): string {
-    try {
-      // 1. Formato REAL do Whaticket: usar campo 'sender'
-      if (webhookData.sender) {
-        const number = webhookData.sender.replace(/\D/g, '');
-        this.logger.debug('✅ UserId extraído do campo sender', { sender: webhookData.sender, userId: `whatsapp_${number}` });
-        return `whatsapp_${number}`;
-      }
-      
-      // 2. Formato antigo: usar ticket.contact.number
-      if (webhookData.ticket?.contact?.number) {
-        const number = webhookData.ticket.contact.number.replace(/\D/g, '');
-        this.logger.debug('✅ UserId extraído do formato antigo', { number, userId: `whatsapp_${number}` });
-        return `whatsapp_${number}`;
-      }
-      
-      // 3. Usar ticketData.contact.number (formato misto)
-      if (webhookData.ticketData?.contact?.number) {
-        const number = webhookData.ticketData.contact.number.replace(/\D/g, '');
-        this.logger.debug('✅ UserId extraído do ticketData', { number, userId: `whatsapp_${number}` });
-        return `whatsapp_${number}`;
-      }
-      
-      // 4. Usar chamadoId como fallback
-      if (webhookData.chamadoId) {
-        const userId = `ticket_${webhookData.chamadoId}`;
-        this.logger.debug('✅ UserId extraído do chamadoId', { chamadoId: webhookData.chamadoId, userId });
-        return userId;
-      }
-      
-      // 5. Usar ticket.id
-      if (webhookData.ticket?.id) {
-        const userId = `ticket_${webhookData.ticket.id}`;
-        this.logger.debug('✅ UserId extraído do ticket.id', { ticketId: webhookData.ticket.id, userId });
-        return userId;
-      }
-      
-      // 6. Fallback para usuário genérico
-      const fallbackId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      this.logger.warn('⚠️ Nenhum identificador encontrado, usando fallback', { 
-        availableFields: Object.keys(webhookData || {}),
-        fallbackId 
+  // 🤖 Verificações do atendimento e run do assistant - a resposta fica salva no job
+  // false = mensagem ignorada ou já respondida sem o assistant
+  private async runAssistant(
+    message: InboundMessage,
+    messageBody: string,
+    requestId: string,
+    job: QueueJob<InboundMessageJob>
+  ): Promise<boolean> {
+    const userId = message.contactId;
+    const progress = job.data.progress;
+    
+    // 🙋 Conversa com atendente humano: o bot não responde até o ticket voltar ou fechar
+    const handoff = await handoffService.isActive(message);
+    if (handoff) {
+      this.logger.info('Mensagem ignorada (conversa com atendente humano)', {
+        requestId,
+        userId,
+        ticketId: handoff.ticketId,
+        since: handoff.since
       });
-      return fallbackId;
-      
-    } catch (error) {
-      const errorFallback = `error_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      this.logger.error('❌ Erro ao extrair userId, usando fallback de erro', { 
-        webhookData, 
-        error, 
-        errorFallback 
+      return false;
+    }
+    
+    // 🧭 Assistant da fila do ticket (null = assistant do tenant)
+    const assistantRoute = assistantRouting.resolve(message);
+    
+    // ⌨️ Comandos do cliente - também depois de um /parar, para o /voltar funcionar
+    const pause = await botPauseService.getState(userId);
+    if ((!pause || pause.reason === 'opt-out') && await this.handleCommand(message, messageBody, requestId, assistantRoute)) {
+      return false;
+    }
+    
+    // ⏸️ Atendente respondeu há pouco, bot pausado manualmente ou pelo próprio cliente
+    if (pause) {
+      this.logger.info('Mensagem ignorada (bot pausado para o contato)', {
+        requestId,
+        userId,
+        reason: pause.reason,
+        until: pause.until
       });
-      return errorFallback;
+      return false;
     }
-  }
-  
-  // 📤 Enviar resposta para WhatsApp via API do Whaticket - formato REAL
-  private async sendResponseToWhatsApp(
-    responseData: any,
-    responseText: string,
-    requestId: string
-  ): Promise<void> {
-    try {
-      // Usar a API do Whaticket para envio de mensagens
-      const axios = require('axios');
-      
-      // Extrair número de contato do formato REAL ou antigo
-      const contactNumber = responseData.contactNumber || 
-                           responseData.contact?.number || 
-                           responseData.ticketData?.contact?.number || 
-                           'unknown';
-      
-      if (contactNumber === 'unknown') {
-        this.logger.warn('❌ Número de contato não disponível, não é possível enviar resposta', { 
-          requestId, 
-          responseData,
-          availableFields: Object.keys(responseData || {})
-        });
-        return;
+    
+    // 🙋 Cliente pediu um atendente - sem transferência possível, o assistant responde
+    if (handoffService.isEnabled(message.tenantId) && handoffService.matchesKeyword(messageBody)) {
+      if (await this.transferToHuman(message, messageBody, requestId, assistantRoute)) {
+        return false;
       }
-      
-      const payload = {
-        number: contactNumber,
-        body: responseText
-      };
-      
-      this.logger.info('Enviando resposta para WhatsApp via API Whaticket', {
+    }
+    
+    // 💰 Orçamento do contato estourado: resposta padrão, sem chamar o assistant
+    const budget = await usageService.checkBudget(userId);
+    if (!budget.allowed) {
+      this.logger.warn('Orçamento do contato estourado - respondendo sem o assistant', {
         requestId,
-        contactNumber,
-        responseLength: responseText.length
-      });
-      
-      const response = await axios.post('https://api-atendimento.ntweb.com.br/api/messages/send', payload, {
-        headers: {
-          'Authorization': `Bearer ${config.whaticket.token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000
+        userId,
+        exceeded: budget.exceeded,
+        spent: budget.spent,
+        limits: budget.limits
       });
       
-      if (response.status === 200 || response.status === 201) {
-        this.logger.info('✅ Resposta enviada com sucesso para WhatsApp', {
-          requestId,
+      await outboxService.enqueue(message, config.usage.fallbackMessage, requestId);
+      return false;
+    }
+    
+    // 🕐 Horário de atendimento humano (repassado ao assistant e às funções)
+    const businessHours = businessHoursService.getStatus();
+    
+    // 🔐 Cliente WHMCS já confirmado para o contato (segue para as funções)
+    const clientId = await clientVerification.getVerifiedClientId(userId);
+    
+    // 🤖 Processar com OpenAI Assistant
+    const contactNumber = message.contactNumber || 'unknown';
+    const contactName = message.contactName || 'Usuario';
+    
+    const response = await tenantService.getAssistant(message.tenantId).processMessage(
+      messageBody,
+      userId,
+      {
+        sessionId: requestId,
+        userId,
+        clientId,
+        tenantId: message.tenantId,
+        channel: message.channel,
+        contactNumber: message.contactNumber,
+        contactName: message.contactName,
+        queueId: message.queueId,
+        queueName: message.queueName,
+        companyId: message.companyId,
+        ticketId: message.ticketId,
+        assistantRoute,
+        businessHours,
+        threadMessage: progress.threadMessage,
+        metadata: {
+          source: message.channel,
+          channel: message.channel,
+          ticketId: message.ticketId ? String(message.ticketId) : undefined,
+          messageId: message.ticketId?.toString() || message.messageId || 'unknown',
           contactNumber,
-          messageId: response.data?.messageId || 'unknown',
-          responseLength: responseText.length
-        });
-      } else {
-        throw new Error(`API retornou status ${response.status}: ${response.data}`);
+          contactName,
+          whatsappId: String(message.whatsappId || 1),
+          queueName: message.queueName || 'Geral',
+          queueId: String(message.queueId || 1),
+          companyId: String(message.companyId || 1),
+          ticketStatus: message.ticketStatus || 'pending',
+          event: message.event || 'message'
+        }
+      }
+    );
+    
+    // Mensagem do cliente adicionada à thread - também em caso de erro, para o retry não repetir
+    progress.threadMessage = response.threadMessage;
+    
+    if (!response.success || !response.response) {
+      // 💰 Tokens do run com erro (sem texto, mas cobrado)
+      if (response.usage) {
+        await usageService.record(message, response.usage);
       }
       
+      // Relançar para a fila tentar novamente (resposta de erro só na dead-letter)
+      throw new Error(response.error || 'Falha no processamento da mensagem');
+    }
+    
+    // 💾 Salvar a resposta antes de seguir - se o processo cair, o retry não refaz o run
+    progress.response = response.response;
+    progress.usage = response.usage;
+    await this.queue.update(job);
+    
+    return true;
+  }
+  
+  // ⌨️ Responder o comando da mensagem, se houver (false = mensagem comum)
+  private async handleCommand(
+    message: InboundMessage,
+    messageBody: string,
+    requestId: string,
+    assistantRoute: AssistantRoute | null
+  ): Promise<boolean> {
+    const command = chatCommands.match(messageBody);
+    if (!command) {
+      return false;
+    }
+    
+    this.logger.info('⌨️ Comando do cliente', { requestId, userId: message.contactId, command: command.name });
+    
+    const reply = await chatCommands.execute(command, {
+      message,
+      requestId,
+      assistantRoute,
+      transferToHuman: () => this.transferToHuman(message, messageBody, requestId, assistantRoute, 'command')
+    });
+    
+    if (reply) {
+      await outboxService.enqueue(message, reply, requestId);
+    }
+    
+    return true;
+  }
+  
+  // 🔀 Transferir para atendente humano (pedido por palavra-chave ou comando) e avisar o cliente
+  private async transferToHuman(
+    message: InboundMessage,
+    messageBody: string,
+    requestId: string,
+    assistantRoute?: AssistantRoute | null,
+    requestedBy: HandoffRequester = 'keyword'
+  ): Promise<boolean> {
+    const transcript = await tenantService.getAssistant(message.tenantId)
+      .getRecentMessages(message.contactId, config.handoff.summaryMessages, assistantRoute?.name);
+    const request = messageBody.length > 200 ? `${messageBody.substring(0, 197)}...` : messageBody;
+    
+    const result = await handoffService.request(message, {
+      reason: `Cliente pediu atendente: "${request}"`,
+      transcript,
+      requestedBy
+    });
+    
+    if (!result.success) {
+      this.logger.warn('Transferência para atendente indisponível', { requestId, userId: message.contactId, error: result.error });
+      return false;
+    }
+    
+    const reply = result.scheduledLabel
+      ? chatCommands.t('handoff.scheduled', { label: result.scheduledLabel })
+      : chatCommands.t('handoff.transferred');
+      
+    await outboxService.enqueue(message, reply, requestId);
+    return true;
+  }
+  
+  // ⏱️ Aviso único ao cliente que passou do limite de mensagens
+  private async sendRateLimitNotice(message: InboundMessage, resetTime: number, requestId: string): Promise<void> {
+    const minutes = Math.max(Math.ceil((resetTime - Date.now()) / 60000), 1);
+    const notice = chatCommands.t('rateLimit.notice', {
+      duration: minutes === 1 ? chatCommands.t('rateLimit.minute') : chatCommands.t('rateLimit.minutes', { minutes })
+    });
+    
+    try {
+      await outboxService.enqueue(message, notice, requestId);
     } catch (error) {
-      this.logger.error('❌ Erro ao enviar resposta para WhatsApp', error, {
-        requestId,
-        contactNumber: ticket?.contact?.number || 'unknown',
-        apiEndpoint: 'https://api-atendimento.ntweb.com.br/api/messages/send',
-        errorMessage: error.message,
-        errorResponse: error.response?.data
-      });
-      throw error;
+      this.logger.warn('Falha ao enviar aviso de limite de mensagens', { requestId, userId: message.contactId, error: error.message });
     }
   }
   
+  // ☠️ Job esgotou as tentativas - avisar o cliente com mensagem de erro genérica
+  private async handleDeadMessage(job: QueueJob<InboundMessageJob>): Promise<void> {
+    const { requestId } = job.data;
+    const message = job.data.message || job.data.batch?.[job.data.batch.length - 1]?.message;
+    
+    if (!message) {
+      return;
+    }
+    
+    await this.sendErrorResponse(message, requestId);
+  }
+  
   // ❌ Enviar mensagem de erro amigável
-  private async sendErrorResponse(responseData: any, requestId: string): Promise<void> {
-    const errorMessage = `🤖 Olá! Sou seu assistente virtual WHMCS.\n\n` +
+  private async sendErrorResponse(message: InboundMessage, requestId: string): Promise<void> {
+    const branding = tenantService.get(message.tenantId)?.branding || config.branding;
+    const contacts = [
+      branding.supportPhone && `📞 Telefone: ${branding.supportPhone}`,
+      branding.supportEmail && `📧 Email: ${branding.supportEmail}`
+    ].filter(Boolean).join('\n');
+    
+    const errorMessage = `🤖 Olá! Sou seu assistente virtual ${branding.name}.\n\n` +
       `❌ Desculpe, encontrei um problema técnico ao processar sua mensagem.\n\n` +
       `🔄 Tente novamente em alguns minutos ou entre em contato com nosso suporte:\n` +
-      `📞 Telefone: (11) 3333-4444\n` +
-      `📧 Email: suporte@empresa.com\n\n` +
+      (contacts ? `${contacts}\n\n` : '\n') +
       `🆔 Ref: ${requestId}`;
-    
+      
     try {
-      await this.sendResponseToWhatsApp(responseData, errorMessage, requestId);
+      await outboxService.enqueue(message, errorMessage, requestId);
     } catch (error) {
       this.logger.error('Erro ao enviar mensagem de erro', error, { requestId });
     }
@@ -524,13 +765,14 @@ export class WebhookHandler {
     uptime: number;
   }> {
     try {
-      const openaiHealth = await this.openaiService.healthCheck();
+      const openaiHealth = await tenantService.getAssistant().healthCheck();
       
       return {
         status: openaiHealth.status === 'healthy' ? 'healthy' : 'unhealthy',
         services: {
           openai: openaiHealth,
-          cache: await cacheService.healthCheck()
+          cache: await cacheService.healthCheck(),
+          whaticket: await whaticketClient.healthCheck()
         },
         uptime: process.uptime()
       };
@@ -0,0 +1,543 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { QueueService } from '../services/QueueService';
+import { outboxService } from '../services/OutboxService';
+import { handoffService } from '../services/HandoffService';
+import { botPauseService } from '../services/BotPauseService';
+import { conversationRules } from '../services/ConversationRulesService';
+import { rateLimitService } from '../services/RateLimitService';
+import { tenantService } from '../services/TenantService';
+import { assistantRouting } from '../services/AssistantRoutingService';
+import { assistantSync } from '../services/AssistantSyncService';
+import { usageService } from '../services/UsageService';
+import { conversationThreads } from '../services/ConversationThreadService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger({ service: 'admin' });
+
+// 🛠️ Rotas administrativas (protegidas por ADMIN_TOKEN)
+export const adminRouter = Router();
+
+// Comparação em tempo constante (os hashes têm o mesmo tamanho, seja qual for o token enviado)
+function sameToken(provided: unknown, expected: string): boolean {
+  if (typeof provided !== 'string') {
+    return false;
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+// 🔐 Exigir token de administração
+function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  if (!config.admin.token) {
+    // Sem token configurado: fechado, a menos que ADMIN_INSECURE libere explicitamente (nunca em produção)
+    if (config.admin.insecure && config.app.env !== 'production') {
+      return next();
+    }
+    return res.status(403).json({ error: 'Admin routes disabled: set ADMIN_TOKEN' });
+  }
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.substring(7) : req.headers['x-admin-token'];
+
+  if (!sameToken(token, config.admin.token)) {
+    logger.warn('Acesso admin negado', { requestId: req.requestId, path: req.path, ip: req.ip });
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  next();
+}
+
+// 📬 Resolver fila pelo nome da rota
+function resolveQueue(req: Request, res: Response): QueueService | null {
+  const queue = QueueService.get(req.params.name);
+
+  if (!queue) {
+    res.status(404).json({
+      error: 'Queue not found',
+      available: QueueService.list().map(q => q.name)
+    });
+    return null;
+  }
+
+  return queue;
+}
+
+// 📞 Aceita o userId (whatsapp_5511..., acme:whatsapp_5511...) ou apenas o número (5511..., acme:5511...)
+function resolveContactId(contactId: string): string {
+  const match = contactId.match(/^(?:([a-z0-9-]+):)?(\d+)$/);
+  return match ? tenantService.scopeContactId(match[1], `whatsapp_${match[2]}`) : contactId;
+}
+
+// 🧭 Tenant do contato (prefixo do contactId) e as rotas de fila dele - uma conversa por rota
+function contactScopes(userId: string): { tenantId?: string; scopes: string[] } {
+  const prefix = userId.includes(':') ? userId.split(':')[0] : undefined;
+  const tenantId = prefix && tenantService.get(prefix) ? prefix : undefined;
+
+  return { tenantId, scopes: assistantRouting.routeNames(tenantId) };
+}
+
+// 📄 Paginação da query (valores inválidos caem no padrão; limit entre 1 e 200)
+function pagination(req: Request): { offset: number; limit: number } {
+  return {
+    offset: Math.max(parseInt(String(req.query.offset)) || 0, 0),
+    limit: Math.min(Math.max(parseInt(String(req.query.limit)) || 50, 1), 200)
+  };
+}
+
+// 🔄 Comparar ou sincronizar assistants (tenant e assistant no body ou na query)
+async function runAssistantSync(req: Request, res: Response, dryRun: boolean) {
+  const tenantId = (req.body?.tenant || req.query.tenant) as string | undefined;
+  const assistantId = (req.body?.assistant || req.query.assistant) as string | undefined;
+
+  if (assistantSync.getTargets({ tenantId, assistantId }).length === 0) {
+    return res.status(404).json({ error: 'No assistant to sync', tenant: tenantId, assistant: assistantId });
+  }
+
+  try {
+    const results = await assistantSync.sync({ tenantId, assistantId, dryRun });
+    res.json({ dryRun, inSync: results.every(result => result.inSync || result.applied), results });
+  } catch (error) {
+    logger.error('Erro ao sincronizar assistants', error, { requestId: req.requestId });
+    res.status(500).json({
+      error: 'Failed to sync assistants',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+adminRouter.use(requireAdminToken);
+
+// 📊 Estatísticas de todas as filas
+adminRouter.get('/queues', async (req, res) => {
+  try {
+    const stats = await Promise.all(QueueService.list().map(queue => queue.getStats()));
+    res.json({ queues: stats, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Erro ao obter estatísticas das filas', error);
+    res.status(500).json({
+      error: 'Failed to get queue stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ☠️ Listar jobs da dead-letter
+adminRouter.get('/queues/:name/dead', async (req, res) => {
+  const queue = resolveQueue(req, res);
+  if (!queue) return;
+
+  const { offset, limit } = pagination(req);
+
+  try {
+    const jobs = await queue.listDead(offset, limit);
+    res.json({ queue: queue.name, offset, limit, jobs });
+  } catch (error) {
+    logger.error('Erro ao listar dead-letter', error, { queue: queue.name });
+    res.status(500).json({
+      error: 'Failed to list dead jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🔄 Recolocar todos os jobs da dead-letter na fila
+adminRouter.post('/queues/:name/dead/requeue', async (req, res) => {
+  const queue = resolveQueue(req, res);
+  if (!queue) return;
+
+  try {
+    const requeued = await queue.requeueAllDead();
+    logger.info(`Dead-letter recolocada na fila: ${requeued} jobs`, { queue: queue.name, requestId: req.requestId });
+    res.json({ queue: queue.name, requeued });
+  } catch (error) {
+    logger.error('Erro ao recolocar dead-letter', error, { queue: queue.name });
+    res.status(500).json({
+      error: 'Failed to requeue dead jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🔄 Recolocar um job da dead-letter na fila
+adminRouter.post('/queues/:name/dead/:jobId/requeue', async (req, res) => {
+  const queue = resolveQueue(req, res);
+  if (!queue) return;
+
+  try {
+    const requeued = await queue.requeueDead(req.params.jobId);
+
+    if (!requeued) {
+      return res.status(404).json({ error: 'Dead job not found', jobId: req.params.jobId });
+    }
+
+    res.json({ queue: queue.name, jobId: req.params.jobId, requeued: true });
+  } catch (error) {
+    logger.error('Erro ao recolocar job', error, { queue: queue.name, jobId: req.params.jobId });
+    res.status(500).json({
+      error: 'Failed to requeue job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🗑️ Descartar um job da dead-letter
+adminRouter.delete('/queues/:name/dead/:jobId', async (req, res) => {
+  const queue = resolveQueue(req, res);
+  if (!queue) return;
+
+  try {
+    const removed = await queue.removeDead(req.params.jobId);
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Dead job not found', jobId: req.params.jobId });
+    }
+
+    res.json({ queue: queue.name, jobId: req.params.jobId, removed: true });
+  } catch (error) {
+    logger.error('Erro ao remover job', error, { queue: queue.name, jobId: req.params.jobId });
+    res.status(500).json({
+      error: 'Failed to remove job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 📤 Histórico de mensagens de saída de um contato
+adminRouter.get('/outbox/contacts/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+  const { offset, limit } = pagination(req);
+
+  try {
+    const { total, messages } = await outboxService.listByContact(userId, offset, limit);
+    res.json({ contactId: userId, total, offset, limit, messages });
+  } catch (error) {
+    logger.error('Erro ao listar outbox do contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to list outbox',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🔍 Detalhe de uma mensagem de saída
+adminRouter.get('/outbox/messages/:id', async (req, res) => {
+  try {
+    const message = await outboxService.getMessage(req.params.id);
+
+    if (!message) {
+      return res.status(404).json({ error: 'Outbox message not found', id: req.params.id });
+    }
+
+    res.json(message);
+  } catch (error) {
+    logger.error('Erro ao obter mensagem da outbox', error, { outboxId: req.params.id });
+    res.status(500).json({
+      error: 'Failed to get outbox message',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🙋 Estado de handoff (conversa com atendente humano) de um contato
+adminRouter.get('/handoff/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const state = await handoffService.getState(userId);
+    res.json({ contactId: userId, active: !!state, handoff: state });
+  } catch (error) {
+    logger.error('Erro ao obter handoff do contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to get handoff',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🤖 Devolver a conversa ao bot
+adminRouter.delete('/handoff/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const released = await handoffService.release(userId, 'liberado pelo admin');
+
+    if (!released) {
+      return res.status(404).json({ error: 'No active handoff', contactId: userId });
+    }
+
+    res.json({ contactId: userId, released: true });
+  } catch (error) {
+    logger.error('Erro ao liberar handoff', error, { userId });
+    res.status(500).json({
+      error: 'Failed to release handoff',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ⏸️ Estado do bot para um contato
+adminRouter.get('/bot/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const pause = await botPauseService.getState(userId);
+    res.json({ contactId: userId, paused: !!pause, pause });
+  } catch (error) {
+    logger.error('Erro ao obter pausa do bot', error, { userId });
+    res.status(500).json({
+      error: 'Failed to get bot state',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ⏸️ Pausar o bot para um contato (duration em segundos, opcional)
+adminRouter.post('/bot/:contactId/pause', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+  const duration = parseInt(String(req.body?.duration || req.query.duration || config.botPause.duration));
+
+  if (!(duration > 0)) {
+    return res.status(400).json({ error: 'Invalid duration' });
+  }
+
+  try {
+    const pause = await botPauseService.pause(userId, 'admin', duration);
+    res.json({ contactId: userId, paused: true, pause });
+  } catch (error) {
+    logger.error('Erro ao pausar bot', error, { userId });
+    res.status(500).json({
+      error: 'Failed to pause bot',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ▶️ Retomar o bot para um contato
+adminRouter.post('/bot/:contactId/resume', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const resumed = await botPauseService.resume(userId);
+    res.json({ contactId: userId, paused: false, resumed });
+  } catch (error) {
+    logger.error('Erro ao retomar bot', error, { userId });
+    res.status(500).json({
+      error: 'Failed to resume bot',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🚫 Bloqueio do contato (admin ou BLOCKED_NUMBERS)
+adminRouter.get('/blocklist/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const block = await rateLimitService.getBlock(userId);
+    const configured = rateLimitService.isNumberBlocked(userId.replace(/^(.+:)?whatsapp_/, ''));
+    res.json({ contactId: userId, blocked: configured || !!block, configured, block });
+  } catch (error) {
+    logger.error('Erro ao obter bloqueio do contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to get block',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🚫 Bloquear contato (duração opcional em segundos, no body ou na query)
+adminRouter.post('/blocklist/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+  const duration = parseInt(req.body?.duration ?? req.query.duration) || undefined;
+  const reason = String(req.body?.reason || 'bloqueado pelo admin');
+
+  try {
+    const block = await rateLimitService.block(userId, reason, duration);
+    res.json({ contactId: userId, blocked: true, block });
+  } catch (error) {
+    logger.error('Erro ao bloquear contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to block contact',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ✅ Desbloquear contato
+adminRouter.delete('/blocklist/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const unblocked = await rateLimitService.unblock(userId);
+
+    if (!unblocked) {
+      return res.status(404).json({ error: 'Contact not blocked', contactId: userId });
+    }
+
+    res.json({ contactId: userId, unblocked: true });
+  } catch (error) {
+    logger.error('Erro ao desbloquear contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to unblock contact',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 💰 Relatório de consumo do dia (?period=AAAA-MM-DD) ou do mês (?period=AAAA-MM, padrão: mês atual)
+adminRouter.get('/usage', async (req, res) => {
+  const period = String(req.query.period || usageService.currentMonth());
+  const limit = Math.min(parseInt(String(req.query.limit)) || 20, 100);
+
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(period)) {
+    return res.status(400).json({ error: 'Invalid period (use YYYY-MM or YYYY-MM-DD)' });
+  }
+
+  try {
+    res.json(await usageService.report(period, limit));
+  } catch (error) {
+    logger.error('Erro ao gerar relatório de consumo', error, { period });
+    res.status(500).json({
+      error: 'Failed to get usage report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 💰 Consumo e orçamento do contato no período
+adminRouter.get('/usage/contacts/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+  const period = String(req.query.period || usageService.currentMonth());
+
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(period)) {
+    return res.status(400).json({ error: 'Invalid period (use YYYY-MM or YYYY-MM-DD)' });
+  }
+
+  try {
+    const [totals, budget] = await Promise.all([
+      usageService.getTotals(period, 'contact', userId),
+      usageService.checkBudget(userId)
+    ]);
+
+    res.json({ contactId: userId, period, totals, budget });
+  } catch (error) {
+    logger.error('Erro ao obter consumo do contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to get contact usage',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🧵 Conversas do contato com o assistant (a do tenant e as das rotas de fila)
+adminRouter.get('/threads/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const { tenantId, scopes } = contactScopes(userId);
+    const provider = tenantService.getAssistant(tenantId).name;
+    const conversations = await Promise.all(['', ...scopes].map(async scope => ({
+      route: scope || null,
+      ...await conversationThreads.get(userId, scope, provider)
+    })));
+
+    res.json({ contactId: userId, provider, conversations });
+  } catch (error) {
+    logger.error('Erro ao obter conversas do contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to get threads',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🧹 Encerrar as conversas do contato (a próxima mensagem começa outra, sem resumo)
+adminRouter.delete('/threads/:contactId', async (req, res) => {
+  const userId = resolveContactId(req.params.contactId);
+
+  try {
+    const { tenantId, scopes } = contactScopes(userId);
+    const closed = await tenantService.getAssistant(tenantId).clearUserThread(userId, scopes);
+
+    res.json({ contactId: userId, closed });
+  } catch (error) {
+    logger.error('Erro ao encerrar conversas do contato', error, { userId });
+    res.status(500).json({
+      error: 'Failed to close threads',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🏢 Tenants em uso (sem credenciais)
+adminRouter.get('/tenants', (req, res) => {
+  res.json(tenantService.list());
+});
+
+// 🔄 Recarregar tenants (ex: após editar TENANTS_FILE)
+adminRouter.post('/tenants/reload', (req, res) => {
+  try {
+    const loaded = tenantService.reload();
+    res.json({ reloaded: true, ...loaded });
+  } catch (error) {
+    logger.error('Erro ao recarregar tenants', error, { requestId: req.requestId });
+    res.status(400).json({
+      error: 'Invalid tenants configuration',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🚦 Regras de conversa em uso
+adminRouter.get('/rules', (req, res) => {
+  res.json(conversationRules.getRules());
+});
+
+// 🔄 Recarregar regras (ex: após editar CONVERSATION_RULES_FILE)
+adminRouter.post('/rules/reload', (req, res) => {
+  try {
+    const loaded = conversationRules.reload();
+    res.json({ reloaded: true, ...loaded });
+  } catch (error) {
+    logger.error('Erro ao recarregar regras de conversa', error, { requestId: req.requestId });
+    res.status(400).json({
+      error: 'Invalid conversation rules',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🧭 Assistant por fila em uso
+adminRouter.get('/assistants', (req, res) => {
+  res.json(assistantRouting.list());
+});
+
+// 🔄 Recarregar rotas de assistant (ex: após editar QUEUE_ASSISTANTS_FILE)
+adminRouter.post('/assistants/reload', (req, res) => {
+  try {
+    const loaded = assistantRouting.reload();
+    res.json({ reloaded: true, ...loaded });
+  } catch (error) {
+    logger.error('Erro ao recarregar rotas de assistant', error, { requestId: req.requestId });
+    res.status(400).json({
+      error: 'Invalid queue assistants configuration',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🔍 Diferenças entre os assistants da OpenAI e o código (tenant e assistant opcionais na query)
+adminRouter.get('/assistants/sync', async (req, res) => {
+  await runAssistantSync(req, res, true);
+});
+
+// 🔄 Aplicar as diferenças nos assistants (dryRun: true apenas compara)
+adminRouter.post('/assistants/sync', async (req, res) => {
+  const dryRun = req.body?.dryRun === true || req.query.dryRun === 'true';
+  await runAssistantSync(req, res, dryRun);
+});
+
+export default adminRouter;
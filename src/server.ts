@@ -1,5 +1,5 @@
 // 🚀 WHMCS Assistant Server Entry Point
-import app, { initializeApp } from './app';
+import app, { initializeApp, shutdownApp } from './app';
 import { config } from './config';
 import { createLogger } from './utils/logger';
 
@@ -49,7 +49,8 @@ ${config.whaticket.url ? '✅' : '❌'} WhaTicket API
     // Graceful shutdown
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down gracefully');
-      server.close(() => {
+      server.close(async () => {
+        await shutdownApp();
         logger.info('Server closed');
         process.exit(0);
       });
@@ -57,7 +58,8 @@ ${config.whaticket.url ? '✅' : '❌'} WhaTicket API
 
     process.on('SIGINT', () => {
       logger.info('SIGINT received, shutting down gracefully');
-      server.close(() => {
+      server.close(async () => {
+        await shutdownApp();
         logger.info('Server closed');  
         process.exit(0);
       });
@@ -0,0 +1,95 @@
+import { readFileSync } from 'fs';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { schemas } from '../utils/validators';
+import { FunctionFactory } from '../factories/FunctionFactory';
+import { DEFAULT_TENANT_ID } from './TenantService';
+import type { AssistantRoute, InboundMessage } from '../types';
+
+// 🧭 Assistant por fila do Whaticket (ex: "Financeiro" e "Suporte Técnico" com instruções e funções próprias)
+// A primeira rota do tenant que casar com a fila (queueIds ou queueNames) decide o assistant, as funções
+// liberadas e a thread do contato; sem rota vale o assistant do tenant com todas as funções.
+// Vêm de QUEUE_ASSISTANTS_FILE ou QUEUE_ASSISTANTS e podem ser recarregadas pelo admin
+export class AssistantRoutingService {
+  private logger = createLogger({ service: 'assistant-routing' });
+  private routes: AssistantRoute[] = [];
+  private source = 'default';
+  
+  constructor() {
+    try {
+      this.reload();
+    } catch (error) {
+      this.logger.error('❌ Rotas de assistant por fila inválidas - usando o assistant de cada tenant', error);
+    }
+  }
+  
+  // 🔄 Carregar rotas da configuração (lança erro se forem inválidas, mantendo as atuais)
+  reload(): { source: string; routes: number } {
+    let raw: string | undefined;
+    let source = 'default';
+    
+    if (config.queueAssistants.file) {
+      raw = readFileSync(config.queueAssistants.file, 'utf8');
+      source = config.queueAssistants.file;
+    } else if (config.queueAssistants.json) {
+      raw = config.queueAssistants.json;
+      source = 'QUEUE_ASSISTANTS';
+    }
+    
+    const routes = raw ? schemas.queueAssistants.parse(JSON.parse(raw)) as AssistantRoute[] : [];
+    
+    for (const route of routes) {
+      const unknown = (route.functions || []).filter(name => !FunctionFactory.hasFunction(name));
+      if (unknown.length > 0) {
+        throw new Error(`Rota ${route.name} libera funções inexistentes: ${unknown.join(', ')}`);
+      }
+    }
+    
+    this.routes = routes;
+    this.source = source;
+    
+    this.logger.info(`🧭 ${routes.length} rota(s) de assistant por fila carregada(s)`, { source });
+    return { source, routes: routes.length };
+  }
+  
+  // 📋 Rotas em uso
+  list(): { source: string; routes: AssistantRoute[] } {
+    return { source: this.source, routes: this.routes };
+  }
+  
+  // 🏷️ Nomes das rotas do tenant (cada uma separa a conversa do contato)
+  routeNames(tenantId?: string): string[] {
+    return this.routes
+      .filter(route => (route.tenantId || DEFAULT_TENANT_ID) === (tenantId || DEFAULT_TENANT_ID))
+      .map(route => route.name);
+  }
+  
+  // 🔍 Rota da fila da mensagem (null = assistant padrão do tenant)
+  resolve(message: InboundMessage): AssistantRoute | null {
+    const tenantId = message.tenantId || DEFAULT_TENANT_ID;
+    const queueName = this.normalizeName(message.queueName);
+    
+    return this.routes.find(route => {
+      if ((route.tenantId || DEFAULT_TENANT_ID) !== tenantId) {
+        return false;
+      }
+      
+      if (route.queueIds?.includes(Number(message.queueId))) {
+        return true;
+      }
+      
+      return !!queueName && !!route.queueNames?.some(name => this.normalizeName(name) === queueName);
+    }) || null;
+  }
+  
+  private normalizeName(name?: string): string {
+    return (name || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toLowerCase();
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const assistantRouting = new AssistantRoutingService();
@@ -0,0 +1,181 @@
+import { readFileSync } from 'fs';
+import type OpenAI from 'openai';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { lineDiff } from '../utils/diff';
+import { FunctionFactory } from '../factories/FunctionFactory';
+import { tenantService, DEFAULT_TENANT_ID } from './TenantService';
+import { assistantRouting } from './AssistantRoutingService';
+import type { AssistantSyncDiff, AssistantSyncTarget, FunctionDefinition } from '../types';
+
+// Estado desejado de um assistant (instructions ausente = não gerenciadas localmente)
+interface DesiredAssistant {
+  model: string;
+  instructions?: string;
+  tools: OpenAI.Beta.AssistantTool[];
+}
+
+// 🔄 Sincronização dos assistants da OpenAI com o código
+// Compara modelo (OPENAI_MODEL), instruções (arquivo local, quando configurado) e funções do
+// FunctionFactory com o assistant remoto de cada tenant e de cada rota de fila, e aplica a diferença
+// pela API de Assistants. Ferramentas que não são funções (file search, code interpreter) são mantidas
+export class AssistantSyncService {
+  private logger = createLogger({ service: 'assistant-sync' });
+  
+  // 🎯 Assistants gerenciados: o de cada tenant e os das rotas de fila (cada assistant uma vez)
+  getTargets(filter: { tenantId?: string; assistantId?: string } = {}): AssistantSyncTarget[] {
+    const targets = new Map<string, AssistantSyncTarget>();
+    
+    for (const tenant of tenantService.list().tenants) {
+      targets.set(tenant.assistantId, {
+        tenantId: tenant.id,
+        assistantId: tenant.assistantId,
+        instructionsFile: tenant.id === DEFAULT_TENANT_ID ? config.openai.instructionsFile : undefined
+      });
+    }
+    
+    // Assistant compartilhado com o tenant mantém todas as funções (a rota restringe no run)
+    for (const route of assistantRouting.list().routes) {
+      if (!targets.has(route.assistantId)) {
+        targets.set(route.assistantId, {
+          tenantId: route.tenantId || DEFAULT_TENANT_ID,
+          assistantId: route.assistantId,
+          route: route.name,
+          functions: route.functions,
+          instructionsFile: route.instructionsFile
+        });
+      }
+    }
+    
+    return [...targets.values()].filter(target =>
+      (!filter.tenantId || target.tenantId === filter.tenantId) &&
+      (!filter.assistantId || target.assistantId === filter.assistantId)
+    );
+  }
+  
+  // 🔍 Comparar (dryRun) ou aplicar as diferenças em cada assistant
+  async sync(options: { tenantId?: string; assistantId?: string; dryRun?: boolean } = {}): Promise<AssistantSyncDiff[]> {
+    const targets = this.getTargets(options);
+    const results: AssistantSyncDiff[] = [];
+    
+    if (targets.length === 0) {
+      throw new Error('Nenhum assistant encontrado para sincronizar');
+    }
+    
+    for (const target of targets) {
+      results.push(await this.syncTarget(target, options.dryRun === true));
+    }
+    
+    this.logger.info(`🔄 Sincronização de ${results.length} assistant(s) concluída`, {
+      dryRun: options.dryRun === true,
+      pending: results.filter(result => !result.inSync && !result.applied).length,
+      applied: results.filter(result => result.applied).length,
+      errors: results.filter(result => result.error).length
+    });
+    
+    return results;
+  }
+  
+  private async syncTarget(target: AssistantSyncTarget, dryRun: boolean): Promise<AssistantSyncDiff> {
+    const base = { tenantId: target.tenantId, assistantId: target.assistantId, route: target.route };
+    
+    try {
+      const assistantService = tenantService.getAssistantsApi(target.tenantId);
+      const remote = await assistantService.retrieveAssistant(target.assistantId);
+      const desired = this.buildDesired(target, remote);
+      const diff: AssistantSyncDiff = { ...base, ...this.compare(remote, desired) };
+      
+      if (diff.inSync || dryRun) {
+        return diff;
+      }
+      
+      await assistantService.updateAssistant(target.assistantId, {
+        model: desired.model,
+        tools: desired.tools,
+        ...(desired.instructions !== undefined ? { instructions: desired.instructions } : {})
+      });
+      
+      return { ...diff, applied: true };
+      
+    } catch (error) {
+      this.logger.error(`Erro ao sincronizar assistant ${target.assistantId}`, error, { tenantId: target.tenantId });
+      
+      return {
+        ...base,
+        inSync: false,
+        tools: { added: [], removed: [], changed: [] },
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+  
+  // 🏗️ Estado esperado: funções do registro (ou da rota) + ferramentas não-função já configuradas
+  private buildDesired(target: AssistantSyncTarget, remote: OpenAI.Beta.Assistant): DesiredAssistant {
+    const functions = FunctionFactory.getOpenAIFunctionDefinitions(target.functions);
+    
+    return {
+      model: config.openai.model,
+      instructions: target.instructionsFile ? readFileSync(target.instructionsFile, 'utf8').trim() : undefined,
+      tools: [
+        ...remote.tools.filter(tool => tool.type !== 'function'),
+        ...functions.map(definition => definition as OpenAI.Beta.FunctionTool)
+      ]
+    };
+  }
+  
+  private compare(remote: OpenAI.Beta.Assistant, desired: DesiredAssistant): Omit<AssistantSyncDiff, 'tenantId' | 'assistantId'> {
+    const remoteFunctions = this.functionMap(remote.tools);
+    const localFunctions = this.functionMap(desired.tools);
+    
+    const tools = {
+      added: [...localFunctions.keys()].filter(name => !remoteFunctions.has(name)),
+      removed: [...remoteFunctions.keys()].filter(name => !localFunctions.has(name)),
+      changed: [...localFunctions.keys()].filter(name =>
+        remoteFunctions.has(name) && remoteFunctions.get(name) !== localFunctions.get(name)
+      )
+    };
+    
+    const model = remote.model !== desired.model ? { remote: remote.model, local: desired.model } : undefined;
+    const remoteInstructions = (remote.instructions || '').trim();
+    const instructions = desired.instructions !== undefined && remoteInstructions !== desired.instructions
+      ? {
+        remoteLength: remoteInstructions.length,
+        localLength: desired.instructions.length,
+        diff: lineDiff(remoteInstructions, desired.instructions)
+      }
+      : undefined;
+      
+    const inSync = !model && !instructions && !tools.added.length && !tools.removed.length && !tools.changed.length;
+    
+    return { inSync, model, instructions, tools };
+  }
+  
+  // Funções por nome, com descrição e parâmetros serializados de forma estável
+  private functionMap(tools: OpenAI.Beta.AssistantTool[]): Map<string, string> {
+    const functions = new Map<string, string>();
+    
+    for (const tool of tools) {
+      if (tool.type === 'function') {
+        const { name, description, parameters } = (tool as FunctionDefinition).function;
+        functions.set(name, this.stableStringify({ description: description || '', parameters: parameters || {} }));
+      }
+    }
+    
+    return functions;
+  }
+  
+  private stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+    
+    return JSON.stringify(value);
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const assistantSync = new AssistantSyncService();
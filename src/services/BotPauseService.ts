@@ -0,0 +1,90 @@
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService, CacheKeys, CacheStrategies } from './CacheService';
+import { outboxService } from './OutboxService';
+import { tenantService } from './TenantService';
+import type { BotPauseReason, BotPauseState, InboundMessage } from '../types';
+
+// Resultado de uma mensagem enviada por um atendente
+export type AgentActivityResult = 'echo' | 'paused' | 'resumed' | 'ignored';
+
+// ⏸️ Pausa do bot por contato
+// Quando um atendente responde pelo Whaticket (fromMe), o bot fica em silêncio por
+// BOT_PAUSE_AGENT_COOLDOWN; a pausa também pode ser feita por comando no chat ou pelo admin
+export class BotPauseService {
+  private logger = createLogger({ service: 'bot-pause' });
+  
+  // ⏸️ Pausar o bot para o contato (duration em segundos)
+  async pause(contactId: string, reason: BotPauseReason, duration = config.botPause.duration): Promise<BotPauseState> {
+    const now = Date.now();
+    const state: BotPauseState = {
+      contactId,
+      reason,
+      pausedAt: new Date(now).toISOString(),
+      until: new Date(now + duration * 1000).toISOString()
+    };
+    
+    await cacheService.set(CacheKeys.botPause(contactId), state, { ...CacheStrategies.botPause, ttl: duration });
+    
+    this.logger.info('⏸️ Bot pausado para o contato', { userId: contactId, reason, duration });
+    return state;
+  }
+  
+  // ▶️ Retomar respostas automáticas
+  async resume(contactId: string): Promise<boolean> {
+    const resumed = await cacheService.del(CacheKeys.botPause(contactId), CacheStrategies.botPause);
+    
+    if (resumed) {
+      this.logger.info('▶️ Bot retomado para o contato', { userId: contactId });
+    }
+    
+    return resumed;
+  }
+  
+  // 🔍 Pausa ativa do contato (null = bot respondendo normalmente)
+  async getState(contactId: string): Promise<BotPauseState | null> {
+    const { value } = await cacheService.get<BotPauseState>(CacheKeys.botPause(contactId), CacheStrategies.botPause);
+    return value;
+  }
+  
+  // 🧑‍💼 Mensagem enviada do nosso lado: eco do bot, comando ou resposta de um atendente
+  async recordAgentActivity(message: InboundMessage): Promise<AgentActivityResult> {
+    const text = message.text.trim();
+    
+    if (await outboxService.wasRecentlySent(message.contactId, text)) {
+      return 'echo';
+    }
+    
+    const [command, number] = text.toLowerCase().split(/\s+/);
+    const target = number && /^\d{8,}$/.test(number)
+      ? tenantService.scopeContactId(message.tenantId, `whatsapp_${number}`)
+      : message.contactId;
+      
+    if (command === config.botPause.pauseCommand) {
+      await this.pause(target, 'command');
+      return 'paused';
+    }
+    
+    if (command === config.botPause.resumeCommand) {
+      await this.resume(target);
+      return 'resumed';
+    }
+    
+    if (config.botPause.agentCooldown <= 0) {
+      return 'ignored';
+    }
+    
+    // Pausa manual mais longa não é encurtada pelo cooldown
+    const current = await this.getState(message.contactId);
+    const cooldownUntil = Date.now() + config.botPause.agentCooldown * 1000;
+    if (current && current.reason !== 'agent' && new Date(current.until).getTime() > cooldownUntil) {
+      return 'ignored';
+    }
+    
+    await this.pause(message.contactId, 'agent', config.botPause.agentCooldown);
+    return 'paused';
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const botPauseService = new BotPauseService();
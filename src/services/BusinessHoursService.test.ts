@@ -0,0 +1,134 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../config';
+import { BusinessHoursService } from './BusinessHoursService';
+
+// 🧪 Horário de atendimento: intervalos, feriados e fuso (com e sem horário de verão)
+describe('BusinessHoursService', () => {
+  const original = { ...config.businessHours };
+
+  // O serviço lê a configuração no construtor
+  const create = (overrides: Partial<typeof config.businessHours>) => {
+    Object.assign(config.businessHours, overrides);
+    return new BusinessHoursService();
+  };
+
+  afterEach(() => {
+    Object.assign(config.businessHours, original);
+  });
+
+  test('sem horário configurado o atendimento fica sempre aberto', () => {
+    const hours = create({ schedule: '', timezone: 'America/Sao_Paulo' });
+
+    assert.deepEqual(hours.getStatus(new Date('2026-10-18T03:00:00Z')), {
+      enabled: false,
+      open: true,
+      timezone: 'America/Sao_Paulo'
+    });
+  });
+
+  describe('America/Sao_Paulo', () => {
+    const saoPaulo = () => create({
+      schedule: 'mon-fri 08:00-12:00,13:00-18:00; sat 08:00-12:00',
+      timezone: 'America/Sao_Paulo',
+      holidays: [],
+      optionalHolidays: true
+    });
+
+    test('aberto dentro do intervalo, com o horário de fechamento', () => {
+      // Segunda, 19/10 às 10:00 (UTC-3)
+      const status = saoPaulo().getStatus(new Date('2026-10-19T13:00:00Z'));
+
+      assert.equal(status.open, true);
+      assert.equal(status.closesAt, '2026-10-19T15:00:00.000Z');
+    });
+
+    test('no intervalo de almoço abre de novo no mesmo dia', () => {
+      const status = saoPaulo().getStatus(new Date('2026-10-19T15:30:00Z'));
+
+      assert.equal(status.open, false);
+      assert.equal(status.nextOpenAt, '2026-10-19T16:00:00.000Z');
+    });
+
+    test('depois do expediente de sábado abre na segunda', () => {
+      // Sábado, 24/10 às 12:00 - fim exclusivo
+      const hours = saoPaulo();
+      const status = hours.getStatus(new Date('2026-10-24T15:00:00Z'));
+
+      assert.equal(status.open, false);
+      assert.equal(status.nextOpenAt, '2026-10-26T11:00:00.000Z');
+      assert.equal(status.nextOpenLabel, 'segunda-feira, 26/10 às 08:00');
+    });
+
+    test('feriado nacional fecha o dia inteiro', () => {
+      // Terça, 21/04 às 10:00
+      const status = saoPaulo().getStatus(new Date('2026-04-21T13:00:00Z'));
+
+      assert.equal(status.open, false);
+      assert.equal(status.holiday, 'Tiradentes');
+      assert.equal(status.nextOpenAt, '2026-04-22T11:00:00.000Z');
+    });
+
+    test('pula feriados ao procurar a próxima abertura', () => {
+      // Quinta, 02/04 às 19:00: sexta é Sexta-feira Santa (Páscoa em 05/04/2026)
+      const status = saoPaulo().getStatus(new Date('2026-04-02T22:00:00Z'));
+
+      assert.equal(status.nextOpenAt, '2026-04-04T11:00:00.000Z');
+    });
+
+    test('Carnaval e Corpus Christi só contam com optionalHolidays', () => {
+      const hours = saoPaulo();
+
+      assert.equal(hours.getHoliday(2026, 2, 16), 'Carnaval');
+      assert.equal(hours.getHoliday(2026, 2, 17), 'Carnaval');
+      assert.equal(hours.getHoliday(2026, 6, 4), 'Corpus Christi');
+
+      config.businessHours.optionalHolidays = false;
+
+      assert.equal(hours.getHoliday(2026, 2, 16), null);
+      assert.equal(hours.getHoliday(2026, 6, 4), null);
+      assert.equal(hours.getHoliday(2026, 4, 3), 'Sexta-feira Santa');
+    });
+
+    test('datas extras de BUSINESS_HOLIDAYS, com ou sem ano', () => {
+      const hours = create({ holidays: ['2026-12-24', '12-31'] });
+
+      assert.equal(hours.getHoliday(2026, 12, 24), 'Feriado');
+      assert.equal(hours.getHoliday(2027, 12, 24), null);
+      assert.equal(hours.getHoliday(2027, 12, 31), 'Feriado');
+    });
+  });
+
+  describe('horário de verão (America/New_York)', () => {
+    const newYork = () => create({
+      schedule: 'mon-fri 09:00-18:00',
+      timezone: 'America/New_York',
+      holidays: [],
+      optionalHolidays: true
+    });
+
+    test('abertura depois do início do horário de verão usa UTC-4', () => {
+      // Sexta, 06/03 às 18:00 EST; o horário de verão começa no domingo, 08/03
+      const status = newYork().getStatus(new Date('2026-03-06T23:00:00Z'));
+
+      assert.equal(status.open, false);
+      assert.equal(status.nextOpenAt, '2026-03-09T13:00:00.000Z');
+    });
+
+    test('fechamento no dia seguinte à mudança usa o novo offset', () => {
+      // Segunda, 09/03 às 10:00 EDT
+      const status = newYork().getStatus(new Date('2026-03-09T14:00:00Z'));
+
+      assert.equal(status.open, true);
+      assert.equal(status.closesAt, '2026-03-09T22:00:00.000Z');
+    });
+
+    test('abertura depois do fim do horário de verão usa UTC-5', () => {
+      // Sexta, 30/10 às 18:00 EDT; o horário de verão termina no domingo, 01/11
+      // e a segunda, 02/11, é Finados
+      const status = newYork().getStatus(new Date('2026-10-30T22:00:00Z'));
+
+      assert.equal(status.nextOpenAt, '2026-11-03T14:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import type { BusinessHoursStatus } from '../types';
+
+// Intervalo de atendimento em minutos desde a meia-noite (fim exclusivo)
+type Interval = [number, number];
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  minutes: number;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, dom: 0,
+  mon: 1, seg: 1,
+  tue: 2, ter: 2,
+  wed: 3, qua: 3,
+  thu: 4, qui: 4,
+  fri: 5, sex: 5,
+  sat: 6, sab: 6
+};
+
+// 🇧🇷 Feriados nacionais de data fixa (MM-DD)
+const FIXED_HOLIDAYS: Record<string, string> = {
+  '01-01': 'Confraternização Universal',
+  '04-21': 'Tiradentes',
+  '05-01': 'Dia do Trabalho',
+  '09-07': 'Independência do Brasil',
+  '10-12': 'Nossa Senhora Aparecida',
+  '11-02': 'Finados',
+  '11-15': 'Proclamação da República',
+  '11-20': 'Dia Nacional de Zumbi e da Consciência Negra',
+  '12-25': 'Natal'
+};
+
+// 🕐 Calendário de atendimento humano: horário semanal, feriados e fuso horário
+// Sem BUSINESS_HOURS configurado o atendimento é considerado sempre aberto
+export class BusinessHoursService {
+  private logger = createLogger({ service: 'business-hours' });
+  private schedule: Map<number, Interval[]>;
+  private extraHolidays = new Map<string, string>();
+  private timezone: string;
+  
+  constructor() {
+    this.timezone = config.businessHours.timezone;
+    this.schedule = this.parseSchedule(config.businessHours.schedule);
+    
+    for (const date of config.businessHours.holidays) {
+      this.extraHolidays.set(date, 'Feriado');
+    }
+  }
+  
+  get enabled(): boolean {
+    return this.schedule.size > 0;
+  }
+  
+  // 🔍 Situação do atendimento no momento informado
+  getStatus(now: Date = new Date()): BusinessHoursStatus {
+    if (!this.enabled) {
+      return { enabled: false, open: true, timezone: this.timezone };
+    }
+    
+    const local = this.toLocal(now);
+    const holiday = this.getHoliday(local.year, local.month, local.day);
+    const today = holiday ? [] : this.schedule.get(local.weekday) || [];
+    
+    const current = today.find(([start, end]) => local.minutes >= start && local.minutes < end);
+    if (current) {
+      return {
+        enabled: true,
+        open: true,
+        timezone: this.timezone,
+        closesAt: this.toInstant(local.year, local.month, local.day, current[1]).toISOString()
+      };
+    }
+    
+    const nextOpen = this.findNextOpening(local);
+    return {
+      enabled: true,
+      open: false,
+      timezone: this.timezone,
+      holiday: holiday || undefined,
+      nextOpenAt: nextOpen?.toISOString(),
+      nextOpenLabel: nextOpen ? this.formatLabel(nextOpen) : undefined
+    };
+  }
+  
+  // 🤖 Instruções extras para o assistant fora do horário: não prometer retorno imediato da equipe
+  describeForAssistant(hours?: BusinessHoursStatus): string | undefined {
+    if (!hours?.enabled || hours.open) {
+      return undefined;
+    }
+    
+    const reason = hours.holiday ? `feriado (${hours.holiday})` : 'fora do horário de atendimento';
+    const nextOpen = hours.nextOpenLabel ? ` A equipe humana volta ${hours.nextOpenLabel}.` : '';
+    
+    return `Agora é ${reason} da equipe humana.${nextOpen} ` +
+      'Não prometa retorno imediato de atendentes; informe quando a equipe verá a solicitação.';
+  }
+  
+  // 📅 Data e hora por extenso no fuso do atendimento (ex: "segunda-feira, 21/10 às 08:00")
+  formatLabel(date: Date): string {
+    const parts = new Intl.DateTimeFormat('pt-BR', {
+      timeZone: this.timezone,
+      weekday: 'long',
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+    
+    const part = (type: string) => parts.find(item => item.type === type)?.value;
+    return `${part('weekday')}, ${part('day')}/${part('month')} às ${part('hour')}:${part('minute')}`;
+  }
+  
+  // ⏭️ Próxima abertura (até duas semanas à frente)
+  private findNextOpening(local: LocalDate): Date | null {
+    for (let offset = 0; offset <= 14; offset++) {
+      const date = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + 1;
+      const day = date.getUTCDate();
+      
+      if (this.getHoliday(year, month, day)) {
+        continue;
+      }
+      
+      for (const [start] of this.schedule.get(date.getUTCDay()) || []) {
+        if (offset === 0 && start <= local.minutes) {
+          continue;
+        }
+        return this.toInstant(year, month, day, start);
+      }
+    }
+    
+    return null;
+  }
+  
+  // 🎉 Nome do feriado na data (nacional, móvel ou configurado em BUSINESS_HOLIDAYS)
+  getHoliday(year: number, month: number, day: number): string | null {
+    const monthDay = `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    const fullDate = `${year}-${monthDay}`;
+    
+    const fixed = FIXED_HOLIDAYS[monthDay] || this.extraHolidays.get(fullDate) || this.extraHolidays.get(monthDay);
+    if (fixed) {
+      return fixed;
+    }
+    
+    const easter = this.easterSunday(year);
+    const daysFromEaster = Math.round((Date.UTC(year, month - 1, day) - easter) / 86400000);
+    const movable: Record<number, string> = { [-2]: 'Sexta-feira Santa' };
+    
+    if (config.businessHours.optionalHolidays) {
+      movable[-48] = 'Carnaval';
+      movable[-47] = 'Carnaval';
+      movable[60] = 'Corpus Christi';
+    }
+    
+    return movable[daysFromEaster] || null;
+  }
+  
+  // ✝️ Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher) em UTC
+  private easterSunday(year: number): number {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    
+    return Date.UTC(year, month - 1, day);
+  }
+  
+  // 🌎 Data/hora local no fuso do atendimento
+  private toLocal(date: Date): LocalDate {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+    
+    const value = (type: string) => parseInt(parts.find(item => item.type === type)?.value || '0');
+    const year = value('year');
+    const month = value('month');
+    const day = value('day');
+    
+    return {
+      year,
+      month,
+      day,
+      weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+      minutes: value('hour') * 60 + value('minute')
+    };
+  }
+  
+  // 🌎 Instante UTC de uma data/hora local (considera o offset do fuso na data)
+  private toInstant(year: number, month: number, day: number, minutes: number): Date {
+    const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+    const offsetAt = (instant: number) => {
+      const local = this.toLocal(new Date(instant));
+      return Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes) - instant;
+    };
+    
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess));
+  }
+  
+  // 📋 "mon-fri 08:00-18:00; sat 08:00-12:00" (vários intervalos no dia separados por vírgula)
+  private parseSchedule(spec: string): Map<number, Interval[]> {
+    const schedule = new Map<number, Interval[]>();
+    
+    for (const rule of spec.split(';').map(item => item.trim()).filter(Boolean)) {
+      const match = rule.match(/^([a-z]{3})(?:-([a-z]{3}))?\s+(.+)$/i);
+      const first = match && WEEKDAYS[match[1].toLowerCase()];
+      const last = match && WEEKDAYS[(match[2] || match[1]).toLowerCase()];
+      
+      if (!match || first === undefined || last === undefined) {
+        this.logger.warn(`Regra de horário inválida ignorada: ${rule}`);
+        continue;
+      }
+      
+      const intervals: Interval[] = [];
+      for (const range of match[3].split(',')) {
+        const times = range.trim().match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+        if (!times) {
+          this.logger.warn(`Intervalo de horário inválido ignorado: ${range}`);
+          continue;
+        }
+        intervals.push([
+          parseInt(times[1]) * 60 + parseInt(times[2]),
+          parseInt(times[3]) * 60 + parseInt(times[4])
+        ]);
+      }
+      
+      // Faixa de dias pode dar a volta na semana (ex: sat-sun)
+      for (let weekday = first, count = 0; count < 7; weekday = (weekday + 1) % 7, count++) {
+        schedule.set(weekday, [...(schedule.get(weekday) || []), ...intervals].sort((a, b) => a[0] - b[0]));
+        if (weekday === last) {
+          break;
+        }
+      }
+    }
+    
+    return schedule;
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const businessHoursService = new BusinessHoursService();
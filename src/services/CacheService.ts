@@ -111,6 +111,19 @@ export class CacheService {
     }
   }
   
+  // 🔐 Armazenar somente se a chave não existir (SET NX) - reserva atômica entre instâncias
+  // Retorna true se a chave foi criada agora; lança erro se o Redis estiver indisponível
+  async setIfNotExists<T = any>(key: string, value: T, options?: CacheOptions): Promise<boolean> {
+    const fullKey = this.buildKey(key, options?.prefix);
+    const ttl = options?.ttl || this.defaultTTL;
+    
+    const result = await this.redis.set(fullKey, JSON.stringify(value), 'EX', ttl, 'NX');
+    
+    this.logger.debug(`Cache set NX: ${fullKey}`, { key: fullKey, ttl, created: result === 'OK' });
+    
+    return result === 'OK';
+  }
+  
   // 🗑️ Remover valor do cache
   async del(key: string, options?: CacheOptions): Promise<boolean> {
     try {
@@ -195,8 +208,31 @@ export class CacheService {
     }
   }
   
+  // 🔌 Conectar explicitamente (lazyConnect + sem offline queue: o primeiro comando falharia)
+  async connect(): Promise<boolean> {
+    try {
+      if (this.redis.status === 'wait') {
+        await this.redis.connect();
+      }
+      return true;
+    } catch (error) {
+      this.logger.warn('⚠️ Não foi possível conectar ao Redis na inicialização');
+      return false;
+    }
+  }
+  
+  // 🔌 Conexão Redis compartilhada (filas, locks e estruturas além de chave/valor)
+  getClient(): Redis {
+    return this.redis;
+  }
+  
+  // 🧪 Trocar a conexão (os testes usam um Redis em memória)
+  setClient(client: Redis): void {
+    this.redis = client;
+  }
+  
   // 🔧 Construir chave completa com prefixo
-  private buildKey(key: string, prefix?: string): string {
+  buildKey(key: string, prefix?: string): string {
     const basePrefix = 'whmcs_assistant';
     const fullPrefix = prefix ? `${basePrefix}:${prefix}` : basePrefix;
     return `${fullPrefix}:${key}`;
@@ -278,17 +314,42 @@ export const cacheService = new CacheService();
 
 // 🎯 Helper functions para cache específico do domínio
 export const CacheKeys = {
+  // Chave isolada por tenant (o tenant padrão mantém as chaves sem prefixo)
+  tenant: (tenantId: string | undefined, key: string) =>
+    tenantId && tenantId !== 'default' ? `tenant:${tenantId}:${key}` : key,
+    
   // WHMCS Client cache
   client: (identifier: string) => `client:${identifier}`,
   clientInvoices: (clientId: number, status: string) => `client:${clientId}:invoices:${status}`,
   clientServices: (clientId: number) => `client:${clientId}:services`,
   
-  // OpenAI Thread cache
-  thread: (userId: string) => `thread:${userId}`,
+  // Conversa do contato (thread da OpenAI ou histórico do provedor chat)
+  thread: (userId: string, scope?: string) => scope ? `thread:${userId}:${scope}` : `thread:${userId}`,
+  
+  // Ferramentas nativas de um assistant (file search, code interpreter) mantidas nas rotas por fila
+  assistantTools: (assistantId: string) => `assistant:${assistantId}:tools`,
+  
+  // Histórico da conversa mantido por nós (provedor chat)
+  chatHistory: (userId: string, scope?: string) => scope ? `history:${userId}:${scope}` : `history:${userId}`,
   
   // Webhook response cache
   webhookResponse: (messageId: string) => `webhook:response:${messageId}`,
   
+  // Deduplicação de mensagens recebidas (fingerprint do payload)
+  webhookDedup: (fingerprint: string) => `webhook:dedup:${fingerprint}`,
+  
+  // Conversa transferida para atendente humano
+  handoff: (userId: string) => `handoff:${userId}`,
+  
+  // Bot pausado para o contato
+  botPause: (userId: string) => `pause:${userId}`,
+  
+  // Contato bloqueado por abuso
+  blocked: (userId: string) => `blocked:${userId}`,
+  
+  // Cliente WHMCS verificado para o contato
+  verifiedClient: (userId: string) => `verified:${userId}`,
+  
   // Rate limiting
   rateLimit: (identifier: string) => `ratelimit:${identifier}`
 };
@@ -304,9 +365,31 @@ export const CacheStrategies = {
   // Cache de serviços (TTL médio)
   services: { ttl: 900, prefix: 'whmcs' }, // 15 minutos
   
-  // Cache de thread OpenAI (TTL longo para manter contexto)
-  thread: { ttl: 3600, prefix: 'openai' }, // 1 hora
+  // Conversa do contato (a conversa termina por inatividade - THREAD_INACTIVITY_TIMEOUT;
+  // o TTL só limpa as antigas, que ainda servem para o resumo da próxima)
+  thread: { ttl: 2592000, prefix: 'openai' }, // 30 dias
+  
+  // Histórico da conversa do provedor chat (mesmo tempo de vida da conversa)
+  chatHistory: { ttl: 2592000, prefix: 'openai' }, // 30 dias
+  
+  // Tools nativas do assistant (a sincronização limpa ao atualizar)
+  assistantTools: { ttl: 600, prefix: 'openai' }, // 10 minutos
   
   // Cache de resposta webhook (TTL curto para evitar duplicação)
-  webhook: { ttl: 300, prefix: 'webhook' } // 5 minutos
+  webhook: { ttl: 300, prefix: 'webhook' }, // 5 minutos
+  
+  // Estado de handoff (TTL de segurança - liberado antes quando o ticket volta ou fecha)
+  handoff: { ttl: 86400, prefix: 'conversation' }, // 24 horas
+  
+  // Pausa do bot (TTL = duração da pausa)
+  botPause: { ttl: 1800, prefix: 'conversation' }, // 30 minutos
+  
+  // Bloqueio de contato (TTL = duração do bloqueio)
+  blocked: { ttl: 2592000, prefix: 'conversation' }, // 30 dias
+  
+  // Vínculo contato → cliente WHMCS (renovado a cada nova verificação)
+  verifiedClient: { ttl: 604800, prefix: 'conversation' }, // 7 dias
+  
+  // Janelas de rate limiting (TTL = janela)
+  rateLimit: { ttl: 900, prefix: 'security' } // 15 minutos
 };
\ No newline at end of file
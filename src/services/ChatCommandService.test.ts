@@ -0,0 +1,117 @@
+import { after, afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import RedisMock from 'ioredis-mock';
+import { config } from '../config';
+import { botPauseService } from './BotPauseService';
+import { cacheService } from './CacheService';
+import { chatCommands } from './ChatCommandService';
+import type { InboundMessage } from '../types';
+
+// 🧪 Reconhecimento dos comandos do cliente
+describe('ChatCommandService.match', () => {
+  const enabled = config.commands.enabled;
+  const matched = (text: string) => chatCommands.match(text)?.name ?? null;
+
+  afterEach(() => {
+    config.commands.enabled = enabled;
+  });
+
+  test('a mensagem inteira precisa ser o gatilho, com ou sem "/"', () => {
+    config.commands.enabled = true;
+
+    assert.equal(matched('ajuda'), 'menu');
+    assert.equal(matched('/ajuda'), 'menu');
+    assert.equal(matched('/help'), 'menu');
+    assert.equal(matched('preciso de ajuda'), null);
+    assert.equal(matched('ajuda com a fatura'), null);
+  });
+
+  test('ignora acentos, maiúsculas e espaços extras', () => {
+    config.commands.enabled = true;
+
+    assert.equal(matched('  /Ajuda '), 'menu');
+    assert.equal(matched('Recomeçar'), 'reset');
+    assert.equal(matched('reiniciar    conversa'), 'reset');
+    assert.equal(matched('MEUS DADOS'), 'data');
+  });
+
+  test('gatilhos escritos com "/" só valem com a barra', () => {
+    config.commands.enabled = true;
+
+    assert.equal(matched('/parar'), 'stop');
+    assert.equal(matched('/PARAR'), 'stop');
+    assert.equal(matched('/voltar'), 'start');
+    assert.equal(matched('parar'), null);
+    assert.equal(matched('stop'), null);
+    assert.equal(matched('voltar'), null);
+    assert.equal(matched('continuar'), null);
+  });
+
+  test('desativado não reconhece nenhum comando', () => {
+    config.commands.enabled = false;
+
+    assert.equal(matched('/ajuda'), null);
+    assert.equal(matched('/parar'), null);
+  });
+});
+
+describe('ChatCommandService.t', () => {
+  const locale = config.commands.locale;
+
+  afterEach(() => {
+    config.commands.locale = locale;
+  });
+
+  test('textos no idioma configurado, com as variáveis', () => {
+    config.commands.locale = 'en';
+
+    assert.equal(chatCommands.t('rateLimit.minutes', { minutes: 5 }), '5 minutes');
+    assert.match(chatCommands.t('handoff.scheduled', { label: 'Monday' }), /from \*Monday\*/);
+  });
+
+  test('idioma desconhecido cai no pt-BR', () => {
+    config.commands.locale = 'fr';
+
+    assert.equal(chatCommands.t('rateLimit.minute'), '1 minuto');
+  });
+});
+
+describe('comando start', () => {
+  const redis = cacheService.getClient();
+  const message = { contactId: 'whatsapp_5511999999999', tenantId: 'default' } as InboundMessage;
+
+  const run = (text: string) => chatCommands.execute(chatCommands.match(text), {
+    message,
+    requestId: 'test',
+    assistantRoute: null,
+    transferToHuman: async () => false
+  });
+
+  const enabled = config.commands.enabled;
+
+  beforeEach(async () => {
+    config.commands.enabled = true;
+    cacheService.setClient(new RedisMock());
+    await cacheService.getClient().flushall();
+  });
+
+  after(() => {
+    config.commands.enabled = enabled;
+    cacheService.setClient(redis);
+  });
+
+  test('desfaz o /parar', async () => {
+    await run('/parar');
+    assert.equal((await botPauseService.getState(message.contactId))?.reason, 'opt-out');
+
+    assert.ok(await run('/voltar'));
+    assert.equal(await botPauseService.getState(message.contactId), null);
+  });
+
+  test('não encerra a pausa de um atendente', async () => {
+    await botPauseService.pause(message.contactId, 'agent');
+
+    assert.equal(await run('/voltar'), undefined);
+    assert.equal((await botPauseService.getState(message.contactId))?.reason, 'agent');
+  });
+});
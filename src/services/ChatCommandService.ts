@@ -0,0 +1,94 @@
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { defaultCommands } from '../commands';
+import { commandMessages } from '../commands/messages';
+import type { ChatCommand, ChatCommandContext, ChatCommandLocale } from '../types';
+
+// ⌨️ Comandos digitados pelo cliente (/reset, /humano, /ajuda...)
+// A mensagem inteira precisa ser um dos gatilhos (sem diferença de acento ou maiúsculas) - assim uma
+// frase que só menciona "ajuda" continua indo para o assistant. Gatilhos escritos com "/" só valem
+// com a barra; os demais, com ou sem ela.
+// O WebhookHandler responde o comando antes do assistant, com textos no idioma de CHAT_COMMANDS_LOCALE
+export class ChatCommandService {
+  private commands = new Map<string, ChatCommand>();
+  private triggers = new Map<string, ChatCommand>();
+  private logger = createLogger({ service: 'chat-commands' });
+  
+  constructor() {
+    defaultCommands.forEach(command => this.register(command));
+  }
+  
+  // ➕ Registrar comando (substitui o de mesmo nome)
+  register(command: ChatCommand): void {
+    const previous = this.commands.get(command.name);
+    previous?.triggers.flatMap(trigger => this.keys(trigger)).forEach(key => this.triggers.delete(key));
+    
+    this.commands.set(command.name, command);
+    
+    for (const key of command.triggers.flatMap(trigger => this.keys(trigger))) {
+      const owner = this.triggers.get(key);
+      
+      if (owner && owner.name !== command.name) {
+        this.logger.warn(`Gatilho "${key}" de ${owner.name} assumido por ${command.name}`);
+      }
+      
+      this.triggers.set(key, command);
+    }
+  }
+  
+  // 📋 Comandos registrados, na ordem de registro
+  list(): ChatCommand[] {
+    return Array.from(this.commands.values());
+  }
+  
+  // 🔍 Comando da mensagem (null = mensagem comum, segue para o assistant)
+  match(text: string): ChatCommand | null {
+    if (!config.commands.enabled) {
+      return null;
+    }
+    
+    return this.triggers.get(this.normalize(text)) || null;
+  }
+  
+  // ▶️ Executar o comando e devolver a resposta ao cliente
+  async execute(
+    command: ChatCommand,
+    context: Omit<ChatCommandContext, 'commands' | 'locale' | 't'>
+  ): Promise<string | undefined> {
+    return await command.execute({
+      ...context,
+      commands: this.list(),
+      locale: this.locale,
+      t: (key, variables) => this.t(key, variables)
+    });
+  }
+  
+  // 🌍 Texto no idioma configurado (pt-BR quando faltar a chave ou o idioma)
+  t(key: string, variables: Record<string, string | number> = {}): string {
+    const template = commandMessages[this.locale]?.[key] ?? commandMessages['pt-BR'][key] ?? key;
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => String(variables[name] ?? ''));
+  }
+  
+  private get locale(): ChatCommandLocale {
+    const locale = config.commands.locale as ChatCommandLocale;
+    return commandMessages[locale] ? locale : 'pt-BR';
+  }
+  
+  private normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, ' ');
+  }
+  
+  // Mensagens que disparam o gatilho ("/parar" só com a barra; "ajuda" também como "/ajuda")
+  private keys(trigger: string): string[] {
+    const key = this.normalize(trigger);
+    return key.startsWith('/') ? [key] : [key, `/${key}`];
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const chatCommands = new ChatCommandService();
@@ -0,0 +1,310 @@
+import { readFileSync } from 'fs';
+import { randomUUID } from 'crypto';
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { businessHoursService } from './BusinessHoursService';
+import { conversationThreads } from './ConversationThreadService';
+import type {
+  AssistantRoute,
+  ConversationMessage,
+  ConversationThread,
+  FunctionContext,
+  LLMProvider,
+  LLMResponse,
+  TenantConfig,
+  TokenUsage,
+  ToolCall,
+  ToolCallTiming
+} from '../types';
+
+// Instruções usadas quando não há OPENAI_ASSISTANT_INSTRUCTIONS_FILE
+const DEFAULT_INSTRUCTIONS = 'Você é um assistente de suporte que ajuda clientes com faturas, serviços e tickets do WHMCS.';
+
+// Mensagem guardada no histórico do contato
+interface ChatHistoryEntry {
+  message: ChatCompletionMessageParam;
+  createdAt: string;
+}
+
+// 💬 Provedor "chat": Chat Completions sem estado na OpenAI
+// O histórico de cada contato (uma conversa por rota de fila) fica junto com a conversa no
+// ConversationThreadService e é enviado inteiro a cada mensagem, com as instruções e as funções do FunctionFactory
+export class ChatCompletionsService implements LLMProvider {
+  readonly name = 'chat';
+  private openai: OpenAI;
+  private logger = createLogger({ service: 'openai-chat' });
+  private instructions = new Map<string, string>();
+  
+  // Sem opções usa a chave do .env; tenants podem informar a própria chave
+  constructor(options: Partial<TenantConfig['openai']> = {}) {
+    this.openai = new OpenAI({
+      apiKey: options.apiKey || config.openai.apiKey,
+      organization: options.apiKey ? undefined : config.openai.organizationId,
+      maxRetries: config.openai.maxRetries,
+      timeout: config.openai.timeout
+    });
+    
+    this.logger.info(`✅ Chat Completions configurado: ${config.openai.model}`);
+  }
+  
+  // 💬 Processar mensagem do usuário
+  async processMessage(message: string, userId?: string, context?: FunctionContext): Promise<LLMResponse> {
+    const route = context?.assistantRoute;
+    const controller = new AbortController();
+    const deadline = setTimeout(() => controller.abort(), config.openai.runTimeout);
+    
+    try {
+      this.logger.openaiRequest('processMessage', { userId, messageLength: message.length });
+      
+      const conversation = userId ? await this.getOrStartConversation(userId, route?.name) : undefined;
+      const history = userId ? await this.loadHistory(userId, route?.name) : [];
+      const entries = [...history, this.entry({ role: 'user', content: message })];
+      const tools = await this.buildTools(route);
+      const system = this.buildSystemMessage(route, context, conversation);
+      const toolCalls: ToolCallTiming[] = [];
+      const usage: TokenUsage = { model: config.openai.model, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let response = '';
+      
+      // 🔁 Modelo responde com texto (fim) ou com function calls (executadas e devolvidas a ele)
+      for (let round = 0; ; round++) {
+        const reply = await this.complete([system, ...entries.map(entry => entry.message)], tools, controller.signal);
+        entries.push(this.entry(reply.message));
+        
+        // Cada etapa reenvia a conversa - o custo da resposta é a soma de todas
+        if (reply.usage) {
+          usage.model = reply.model;
+          usage.promptTokens += reply.usage.prompt_tokens;
+          usage.completionTokens += reply.usage.completion_tokens;
+          usage.totalTokens += reply.usage.total_tokens;
+        }
+        
+        if (reply.toolCalls.length === 0) {
+          response = reply.text;
+          break;
+        }
+        
+        if (round >= config.llm.maxToolRounds) {
+          throw new Error(`Limite de ${config.llm.maxToolRounds} etapas com function calls atingido`);
+        }
+        
+        this.logger.info(`Processando ${reply.toolCalls.length} function calls`, { userId, round });
+        
+        const { FunctionFactory } = await import('../factories/FunctionFactory');
+        const { outputs, timings } = await FunctionFactory.executeToolCalls(reply.toolCalls, context, 'openai_chat');
+        toolCalls.push(...timings);
+        
+        for (const output of outputs) {
+          entries.push(this.entry({ role: 'tool', tool_call_id: output.tool_call_id, content: output.output }));
+        }
+      }
+      
+      if (userId) {
+        await this.saveHistory(userId, route?.name, entries);
+      }
+      
+      this.logger.openaiResponse('processMessage', usage.totalTokens, {
+        userId,
+        route: route?.name,
+        model: config.openai.model,
+        toolCalls
+      });
+      
+      return {
+        success: true,
+        response: response || 'Sem resposta disponível',
+        usage: usage.totalTokens > 0 ? usage : undefined
+      };
+      
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      this.logger.error('Erro ao processar mensagem', error, { userId, timedOut });
+      
+      return {
+        success: false,
+        error: timedOut
+          ? 'Timeout aguardando resposta do modelo'
+          : error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+      
+    } finally {
+      clearTimeout(deadline);
+    }
+  }
+  
+  // 📤 Enviar a conversa e as funções - o modelo devolve texto ou function calls
+  private async complete(
+    messages: ChatCompletionMessageParam[],
+    tools: ChatCompletionTool[],
+    signal: AbortSignal
+  ): Promise<{
+    message: ChatCompletionMessageParam;
+    text: string;
+    toolCalls: ToolCall[];
+    model: string;
+    usage?: OpenAI.CompletionUsage;
+  }> {
+    const completion = await this.openai.chat.completions.create({
+      model: config.openai.model,
+      messages,
+      ...(tools.length > 0 ? { tools } : {})
+    }, { signal });
+    
+    const choice = completion.choices[0]?.message;
+    if (!choice) {
+      throw new Error('Resposta do modelo sem mensagem');
+    }
+    
+    const toolCalls: ToolCall[] = (choice.tool_calls || [])
+      .filter(toolCall => toolCall.type === 'function')
+      .map(toolCall => ({
+        id: toolCall.id,
+        type: 'function',
+        function: { name: toolCall.function.name, arguments: toolCall.function.arguments }
+      }));
+      
+    return {
+      message: {
+        role: 'assistant',
+        content: choice.content,
+        ...(choice.tool_calls?.length ? { tool_calls: choice.tool_calls } : {})
+      },
+      text: (choice.content || '').trim(),
+      toolCalls,
+      model: completion.model || config.openai.model,
+      usage: completion.usage
+    };
+  }
+  
+  // 🧰 Funções do FunctionFactory (restritas às da rota da fila, quando houver)
+  private async buildTools(route?: AssistantRoute): Promise<ChatCompletionTool[]> {
+    const { FunctionFactory } = await import('../factories/FunctionFactory');
+    return FunctionFactory.getOpenAIFunctionDefinitions(route?.functions) as ChatCompletionTool[];
+  }
+  
+  // 🧵 Conversa do contato na rota - depois de THREAD_INACTIVITY_TIMEOUT sem mensagens, o histórico
+  // é trocado pelo resumo dele
+  private async getOrStartConversation(userId: string, scope?: string): Promise<ConversationThread> {
+    const { active, expired } = await conversationThreads.get(userId, scope, this.name);
+    
+    if (active) {
+      await conversationThreads.touch(active);
+      return active;
+    }
+    
+    const summary = expired?.provider === this.name
+      ? await conversationThreads.summarize(
+        this.openai,
+        await this.getRecentMessages(userId, config.threads.summaryMessages, scope),
+        expired.summary
+      )
+      : expired?.summary;
+      
+    await conversationThreads.clearHistory(userId, scope);
+    
+    return await conversationThreads.start({
+      contactId: userId,
+      scope: scope || '',
+      provider: this.name,
+      threadId: `chat_${randomUUID()}`,
+      summary
+    });
+  }
+  
+  // 📝 Instruções da rota ou do .env, com o aviso de horário de atendimento e o resumo das conversas anteriores
+  private buildSystemMessage(
+    route?: AssistantRoute,
+    context?: FunctionContext,
+    conversation?: ConversationThread
+  ): ChatCompletionMessageParam {
+    const file = route?.instructionsFile || config.openai.instructionsFile;
+    
+    if (file && !this.instructions.has(file)) {
+      this.instructions.set(file, readFileSync(file, 'utf8').trim());
+    }
+    
+    const instructions = file ? this.instructions.get(file) : DEFAULT_INSTRUCTIONS;
+    const extras = [
+      conversationThreads.describeSummary(conversation),
+      businessHoursService.describeForAssistant(context?.businessHours)
+    ].filter(Boolean);
+    
+    return {
+      role: 'system',
+      content: [instructions, ...extras].join('\n\n')
+    };
+  }
+  
+  private entry(message: ChatCompletionMessageParam): ChatHistoryEntry {
+    return { message, createdAt: new Date().toISOString() };
+  }
+  
+  // 🗂️ Histórico do contato na rota da fila
+  private async loadHistory(userId: string, scope?: string): Promise<ChatHistoryEntry[]> {
+    return await conversationThreads.loadHistory<ChatHistoryEntry>(userId, scope);
+  }
+  
+  // 💾 Guardar as últimas LLM_HISTORY_MESSAGES mensagens, começando sempre em uma mensagem do usuário
+  // (cortar no meio deixaria resultados de função sem a chamada correspondente)
+  private async saveHistory(userId: string, scope: string | undefined, entries: ChatHistoryEntry[]): Promise<void> {
+    let start = Math.max(entries.length - config.llm.historyMessages, 0);
+    
+    while (start > 0 && start < entries.length && entries[start].message.role !== 'user') {
+      start++;
+    }
+    
+    await conversationThreads.saveHistory(userId, scope, entries.slice(start));
+  }
+  
+  // 💬 Últimas mensagens da conversa do usuário (mais antigas primeiro; scope = rota da fila)
+  async getRecentMessages(userId: string, limit = 10, scope?: string): Promise<ConversationMessage[]> {
+    const history = await this.loadHistory(userId, scope);
+    
+    return history
+      .filter(({ message }) => (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string')
+      .map(({ message, createdAt }) => ({
+        role: message.role as ConversationMessage['role'],
+        text: (message.content as string).trim(),
+        createdAt
+      }))
+      .filter(message => message.text)
+      .slice(-limit);
+  }
+  
+  // 🧹 Encerrar as conversas do usuário e apagar o histórico (a do tenant e as das rotas em scopes)
+  async clearUserThread(userId: string, scopes: string[] = []): Promise<boolean> {
+    const closed = await Promise.all(['', ...scopes].map(async scope => {
+      const [conversation, history] = await Promise.all([
+        conversationThreads.close(userId, scope),
+        conversationThreads.clearHistory(userId, scope)
+      ]);
+      return conversation || history;
+    }));
+    
+    this.logger.info(`Conversa limpa para usuário: ${userId}`, { routes: scopes.length });
+    return closed.some(Boolean);
+  }
+  
+  // 🏥 Health check (modelo configurado acessível com a chave)
+  async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; latency?: number; model?: string }> {
+    try {
+      const start = Date.now();
+      await this.openai.models.retrieve(config.openai.model);
+      
+      return {
+        status: 'healthy',
+        latency: Date.now() - start,
+        model: config.openai.model
+      };
+      
+    } catch (error) {
+      this.logger.error('Health check OpenAI falhou', error);
+      
+      return {
+        status: 'unhealthy',
+        model: config.openai.model
+      };
+    }
+  }
+}
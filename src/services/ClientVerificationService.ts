@@ -0,0 +1,70 @@
+import { createLogger } from '../utils/logger';
+import { cacheService, CacheKeys, CacheStrategies } from './CacheService';
+import type { VerifiedClient, WHMCSClient } from '../types';
+
+// 🔐 Vínculo entre o contato do WhatsApp e o cliente WHMCS
+// Um cliente encontrado por uma função só é considerado verificado quando o telefone do cadastro
+// é o mesmo número que está conversando; o clientId verificado segue no FunctionContext
+export class ClientVerificationService {
+  private logger = createLogger({ service: 'client-verification' });
+  
+  // ✅ Registrar o cliente como verificado se o telefone do cadastro for o do contato
+  async verify(contactId: string | undefined, contactNumber: string | undefined, client: WHMCSClient): Promise<boolean> {
+    if (!contactId || !this.samePhone(contactNumber, client.phonenumber)) {
+      return false;
+    }
+    
+    const entry: VerifiedClient = {
+      contactId,
+      clientId: Number(client.id),
+      verifiedAt: new Date().toISOString()
+    };
+    
+    await cacheService.set(CacheKeys.verifiedClient(contactId), entry, CacheStrategies.verifiedClient);
+    
+    this.logger.info('🔐 Cliente WHMCS verificado pelo telefone', { userId: contactId, clientId: entry.clientId });
+    return true;
+  }
+  
+  // 🔍 Vínculo do contato (null = nenhum cliente confirmado)
+  async get(contactId: string): Promise<VerifiedClient | null> {
+    const { value } = await cacheService.get<VerifiedClient>(CacheKeys.verifiedClient(contactId), CacheStrategies.verifiedClient);
+    return value || null;
+  }
+  
+  // 🔍 clientId verificado do contato (undefined = nenhum cliente confirmado)
+  async getVerifiedClientId(contactId: string): Promise<number | undefined> {
+    return (await this.get(contactId))?.clientId;
+  }
+  
+  // 🧹 Desfazer o vínculo (o cliente precisa ser encontrado de novo pelo telefone)
+  async forget(contactId: string): Promise<boolean> {
+    const removed = await cacheService.del(CacheKeys.verifiedClient(contactId), CacheStrategies.verifiedClient);
+    
+    if (removed) {
+      this.logger.info('🧹 Vínculo com o cliente WHMCS removido', { userId: contactId });
+    }
+    
+    return removed;
+  }
+  
+  // 📞 Mesmo DDD e mesmos 8 últimos dígitos (o WhatsApp pode omitir o nono dígito e o cadastro, o +55)
+  private samePhone(contactNumber?: string, phonenumber?: string): boolean {
+    const contact = this.nationalNumber(contactNumber);
+    const registered = this.nationalNumber(phonenumber);
+    
+    if (contact.length < 10 || registered.length < 10) {
+      return false;
+    }
+    
+    return contact.slice(0, 2) === registered.slice(0, 2) && contact.slice(-8) === registered.slice(-8);
+  }
+  
+  private nationalNumber(phone?: string): string {
+    const digits = (phone || '').replace(/\D/g, '');
+    return digits.startsWith('55') && digits.length >= 12 ? digits.slice(2) : digits;
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const clientVerification = new ClientVerificationService();
@@ -0,0 +1,143 @@
+import { readFileSync } from 'fs';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { schemas } from '../utils/validators';
+import type {
+  ConversationRule,
+  ConversationRuleDecision,
+  ConversationRuleMatch,
+  ConversationRuleSet,
+  InboundMessage
+} from '../types';
+
+// Sem configuração: atende tudo, exceto grupos
+const DEFAULT_RULES: ConversationRuleSet = {
+  default: 'allow',
+  rules: [
+    { name: 'grupos', action: 'deny', match: { isGroup: true } }
+  ]
+};
+
+// 🚦 Regras de quais conversas o bot atende (fila, grupo, número, conexão, empresa)
+// Avaliadas em ordem antes de enfileirar a mensagem: a primeira regra que casar decide.
+// Vêm de CONVERSATION_RULES_FILE ou CONVERSATION_RULES e podem ser recarregadas pelo admin
+export class ConversationRulesService {
+  private logger = createLogger({ service: 'rules' });
+  private ruleSet: ConversationRuleSet = DEFAULT_RULES;
+  private numberPatterns = new Map<string, RegExp>();
+  private source = 'default';
+  
+  constructor() {
+    try {
+      this.reload();
+    } catch (error) {
+      this.logger.error('❌ Regras de conversa inválidas - usando as regras padrão', error);
+    }
+  }
+  
+  // 🔄 Carregar regras da configuração (lança erro se forem inválidas, mantendo as atuais)
+  reload(): { source: string; rules: number } {
+    let raw: string | undefined;
+    let source = 'default';
+    
+    if (config.rules.file) {
+      raw = readFileSync(config.rules.file, 'utf8');
+      source = config.rules.file;
+    } else if (config.rules.json) {
+      raw = config.rules.json;
+      source = 'CONVERSATION_RULES';
+    }
+    
+    const ruleSet = raw ? schemas.conversationRules.parse(JSON.parse(raw)) as ConversationRuleSet : DEFAULT_RULES;
+    const numberPatterns = new Map<string, RegExp>();
+    
+    for (const rule of ruleSet.rules) {
+      for (const pattern of rule.match.contactNumbers || []) {
+        numberPatterns.set(pattern, this.compileNumberPattern(pattern));
+      }
+    }
+    
+    this.ruleSet = ruleSet;
+    this.numberPatterns = numberPatterns;
+    this.source = source;
+    
+    this.logger.info(`🚦 ${ruleSet.rules.length} regras de conversa carregadas`, { source, defaultAction: ruleSet.default });
+    return { source, rules: ruleSet.rules.length };
+  }
+  
+  // 📋 Regras em uso
+  getRules(): ConversationRuleSet & { source: string } {
+    return { ...this.ruleSet, source: this.source };
+  }
+  
+  // ⚖️ O bot deve atender esta mensagem?
+  evaluate(message: InboundMessage): ConversationRuleDecision {
+    const rule = this.ruleSet.rules.find(candidate => this.matches(candidate.match, message));
+    
+    if (!rule) {
+      return { allowed: this.ruleSet.default === 'allow' };
+    }
+    
+    return { allowed: rule.action === 'allow', rule: rule.name };
+  }
+  
+  private matches(match: ConversationRuleMatch, message: InboundMessage): boolean {
+    if (match.channels && !match.channels.includes(message.channel)) {
+      return false;
+    }
+    
+    if (match.queueIds && !match.queueIds.includes(Number(message.queueId))) {
+      return false;
+    }
+    
+    if (match.queueNames) {
+      const queueName = this.normalizeName(message.queueName);
+      if (!queueName || !match.queueNames.some(name => this.normalizeName(name) === queueName)) {
+        return false;
+      }
+    }
+    
+    if (match.isGroup !== undefined && match.isGroup !== (message.isGroup === true)) {
+      return false;
+    }
+    
+    if (match.whatsappIds && !match.whatsappIds.includes(Number(message.whatsappId))) {
+      return false;
+    }
+    
+    if (match.companyIds && !match.companyIds.includes(Number(message.companyId))) {
+      return false;
+    }
+    
+    if (match.contactNumbers) {
+      const number = (message.contactNumber || '').replace(/\D/g, '');
+      if (!number || !match.contactNumbers.some(pattern => this.numberPatterns.get(pattern)?.test(number))) {
+        return false;
+      }
+    }
+    
+    return true;
+  }
+  
+  // 📞 "/regex/", "5511*" (curinga) ou número exato
+  private compileNumberPattern(pattern: string): RegExp {
+    const regex = pattern.match(/^\/(.+)\/$/);
+    if (regex) {
+      return new RegExp(regex[1]);
+    }
+    
+    const digits = pattern.replace(/[^\d*]/g, '').replace(/\*/g, '\\d*');
+    return new RegExp(`^${digits}$`);
+  }
+  
+  private normalizeName(name?: string): string {
+    return (name || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toLowerCase();
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const conversationRules = new ConversationRulesService();
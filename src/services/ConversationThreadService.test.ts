@@ -0,0 +1,59 @@
+import { after, afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import RedisMock from 'ioredis-mock';
+import { config } from '../config';
+import { cacheService } from './CacheService';
+import { conversationThreads } from './ConversationThreadService';
+import { database } from './DatabaseService';
+
+// 🧪 Histórico do provedor chat: Redis como cache, PostgreSQL como fonte
+describe('ConversationThreadService (histórico)', () => {
+  const redis = cacheService.getClient();
+  const store = config.threads.store;
+  const contactId = 'whatsapp_5511999999999';
+  const history = [{ message: { role: 'user', content: 'Olá' }, createdAt: '2026-10-19T12:00:00.000Z' }];
+
+  beforeEach(async () => {
+    cacheService.setClient(new RedisMock());
+    await cacheService.getClient().flushall();
+  });
+
+  afterEach(() => {
+    config.threads.store = store;
+    mock.restoreAll();
+  });
+
+  after(() => {
+    cacheService.setClient(redis);
+  });
+
+  test('depois de um flush do Redis o histórico vem do banco', async () => {
+    config.threads.store = 'postgres';
+    const query = mock.method(database, 'query', async () => [{ history }]);
+
+    await conversationThreads.saveHistory(contactId, 'financeiro', history);
+    assert.match(String(query.mock.calls[0].arguments[0]), /^UPDATE conversation_threads SET history/);
+
+    await cacheService.getClient().flushall();
+
+    assert.deepEqual(await conversationThreads.loadHistory(contactId, 'financeiro'), history);
+    assert.deepEqual(query.mock.calls[1].arguments[1], [contactId, 'financeiro']);
+
+    // De volta ao cache: a próxima leitura não consulta o banco
+    assert.deepEqual(await conversationThreads.loadHistory(contactId, 'financeiro'), history);
+    assert.equal(query.mock.callCount(), 2);
+  });
+
+  test('com THREAD_STORE=redis o banco não é usado', async () => {
+    config.threads.store = 'redis';
+    const query = mock.method(database, 'query', async () => []);
+
+    await conversationThreads.saveHistory(contactId, '', history);
+    assert.deepEqual(await conversationThreads.loadHistory(contactId), history);
+
+    await cacheService.getClient().flushall();
+
+    assert.deepEqual(await conversationThreads.loadHistory(contactId), []);
+    assert.equal(query.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,302 @@
+import type OpenAI from 'openai';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService, CacheKeys, CacheStrategies } from './CacheService';
+import { database } from './DatabaseService';
+import type { ConversationMessage, ConversationThread } from '../types';
+
+// Linha de conversation_threads
+interface ConversationThreadRow {
+  contact_id: string;
+  scope: string;
+  provider: string;
+  thread_id: string;
+  summary: string | null;
+  started_at: Date;
+  last_activity_at: Date;
+}
+
+const SUMMARY_INSTRUCTIONS =
+  'Resuma a conversa de atendimento abaixo entre um cliente e o assistente de suporte, em português, ' +
+  'em no máximo 8 linhas. Inclua quem é o cliente (nome, email ou ID do WHMCS, se aparecerem), o que ' +
+  'ele pediu, o que foi verificado ou resolvido e o que ficou pendente. Não invente informações.';
+  
+// 🧵 Conversas dos contatos com o assistant
+// Cada contato tem uma conversa por rota de fila (thread da OpenAI ou histórico do provedor chat).
+// Sem mensagens por THREAD_INACTIVITY_TIMEOUT a conversa termina e a próxima mensagem começa outra,
+// que recebe um resumo da anterior. Com THREAD_STORE=postgres (padrão) o vínculo, o resumo e o
+// histórico do provedor chat ficam no banco (o Redis vira cache) e sobrevivem a um flush do Redis;
+// sem o banco na inicialização a aplicação não sobe, e depois disso falhas do banco só são logadas
+export class ConversationThreadService {
+  private logger = createLogger({ service: 'conversation-threads' });
+  
+  private get persistent(): boolean {
+    return config.threads.store === 'postgres';
+  }
+  
+  // 🗄️ Criar a tabela (instalações cujo banco foi criado antes dela)
+  async init(): Promise<void> {
+    if (!this.persistent) {
+      this.logger.warn('⚠️ THREAD_STORE=redis - conversas, resumos e históricos se perdem em um flush do Redis');
+      return;
+    }
+    
+    try {
+      await database.query(`
+        CREATE TABLE IF NOT EXISTS conversation_threads (
+          id BIGSERIAL PRIMARY KEY,
+          contact_id VARCHAR(255) NOT NULL,
+          scope VARCHAR(100) NOT NULL DEFAULT '',
+          provider VARCHAR(50) NOT NULL,
+          thread_id VARCHAR(255) NOT NULL,
+          summary TEXT,
+          started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          closed_at TIMESTAMP WITH TIME ZONE,
+          history JSONB
+        )
+      `);
+      await database.query('ALTER TABLE conversation_threads ADD COLUMN IF NOT EXISTS history JSONB');
+      await database.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_threads_active
+          ON conversation_threads(contact_id, scope) WHERE closed_at IS NULL
+      `);
+      
+      this.logger.info('🐘 Conversas persistidas no PostgreSQL');
+    } catch (error) {
+      this.logger.error('❌ Erro ao preparar a tabela de conversas no PostgreSQL (DATABASE_URL)', error);
+      throw new Error('PostgreSQL indisponível para THREAD_STORE=postgres - configure DATABASE_URL ou use THREAD_STORE=redis');
+    }
+  }
+  
+  // 🔍 Conversa do contato: active = ainda dentro da janela de inatividade;
+  // expired = a última conversa, encerrada por inatividade ou criada por outro provedor
+  async get(contactId: string, scope = '', provider: string): Promise<{ active: ConversationThread | null; expired: ConversationThread | null }> {
+    const conversation = await this.load(contactId, scope);
+    
+    if (!conversation) {
+      return { active: null, expired: null };
+    }
+    
+    const idle = (Date.now() - new Date(conversation.lastActivityAt).getTime()) / 1000;
+    const inactive = config.threads.inactivityTimeout > 0 && idle > config.threads.inactivityTimeout;
+    
+    if (inactive || conversation.provider !== provider) {
+      return { active: null, expired: conversation };
+    }
+    
+    return { active: conversation, expired: null };
+  }
+  
+  // ➕ Começar uma conversa (encerra a atual do contato na rota)
+  async start(conversation: Omit<ConversationThread, 'startedAt' | 'lastActivityAt'>): Promise<ConversationThread> {
+    const now = new Date().toISOString();
+    const started: ConversationThread = { ...conversation, startedAt: now, lastActivityAt: now };
+    
+    await cacheService.set(CacheKeys.thread(started.contactId, started.scope || undefined), started, CacheStrategies.thread);
+    
+    if (this.persistent) {
+      try {
+        await database.transaction(async client => {
+          await client.query(
+            'UPDATE conversation_threads SET closed_at = NOW() WHERE contact_id = $1 AND scope = $2 AND closed_at IS NULL',
+            [started.contactId, started.scope]
+          );
+          await client.query(
+            `INSERT INTO conversation_threads (contact_id, scope, provider, thread_id, summary, started_at, last_activity_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $6)`,
+            [started.contactId, started.scope, started.provider, started.threadId, started.summary || null, now]
+          );
+        });
+      } catch (error) {
+        this.logger.error('Erro ao gravar conversa no PostgreSQL', error, { userId: started.contactId, threadId: started.threadId });
+      }
+    }
+    
+    this.logger.info('🧵 Nova conversa', {
+      userId: started.contactId,
+      route: started.scope || undefined,
+      threadId: started.threadId,
+      summary: !!started.summary
+    });
+    
+    return started;
+  }
+  
+  // 🕐 Registrar atividade (adia o fim da conversa por inatividade)
+  async touch(conversation: ConversationThread): Promise<void> {
+    const lastActivityAt = new Date().toISOString();
+    conversation.lastActivityAt = lastActivityAt;
+    
+    await cacheService.set(CacheKeys.thread(conversation.contactId, conversation.scope || undefined), conversation, CacheStrategies.thread);
+    
+    if (this.persistent) {
+      try {
+        await database.query(
+          'UPDATE conversation_threads SET last_activity_at = $3 WHERE contact_id = $1 AND scope = $2 AND closed_at IS NULL',
+          [conversation.contactId, conversation.scope, lastActivityAt]
+        );
+      } catch (error) {
+        this.logger.error('Erro ao atualizar conversa no PostgreSQL', error, { userId: conversation.contactId });
+      }
+    }
+  }
+  
+  // 🧹 Encerrar a conversa do contato na rota (a próxima mensagem começa outra, sem resumo)
+  async close(contactId: string, scope = ''): Promise<boolean> {
+    let closed = await cacheService.del(CacheKeys.thread(contactId, scope || undefined), CacheStrategies.thread);
+    
+    if (this.persistent) {
+      try {
+        const rows = await database.query(
+          'UPDATE conversation_threads SET closed_at = NOW() WHERE contact_id = $1 AND scope = $2 AND closed_at IS NULL RETURNING id',
+          [contactId, scope]
+        );
+        closed = closed || rows.length > 0;
+      } catch (error) {
+        this.logger.error('Erro ao encerrar conversa no PostgreSQL', error, { userId: contactId });
+      }
+    }
+    
+    return closed;
+  }
+  
+  // 🗂️ Histórico da conversa ativa mantido por nós (provedor chat) - Redis primeiro; sem cache, o banco
+  async loadHistory<T>(contactId: string, scope = ''): Promise<T[]> {
+    const { value } = await cacheService.get<T[]>(CacheKeys.chatHistory(contactId, scope || undefined), CacheStrategies.chatHistory);
+    
+    if (value || !this.persistent) {
+      return value || [];
+    }
+    
+    try {
+      const [row] = await database.query<{ history: T[] | null }>(
+        'SELECT history FROM conversation_threads WHERE contact_id = $1 AND scope = $2 AND closed_at IS NULL',
+        [contactId, scope]
+      );
+      
+      if (!row?.history) {
+        return [];
+      }
+      
+      await cacheService.set(CacheKeys.chatHistory(contactId, scope || undefined), row.history, CacheStrategies.chatHistory);
+      return row.history;
+    } catch (error) {
+      this.logger.error('Erro ao buscar histórico no PostgreSQL', error, { userId: contactId });
+      return [];
+    }
+  }
+  
+  // 💾 Guardar o histórico da conversa ativa
+  async saveHistory<T>(contactId: string, scope = '', history: T[]): Promise<void> {
+    await cacheService.set(CacheKeys.chatHistory(contactId, scope || undefined), history, CacheStrategies.chatHistory);
+    
+    if (this.persistent) {
+      try {
+        await database.query(
+          'UPDATE conversation_threads SET history = $3 WHERE contact_id = $1 AND scope = $2 AND closed_at IS NULL',
+          [contactId, scope, JSON.stringify(history)]
+        );
+      } catch (error) {
+        this.logger.error('Erro ao gravar histórico no PostgreSQL', error, { userId: contactId });
+      }
+    }
+  }
+  
+  // 🧹 Apagar o histórico do cache (no banco ele fica com a conversa, que é encerrada à parte)
+  async clearHistory(contactId: string, scope = ''): Promise<boolean> {
+    return await cacheService.del(CacheKeys.chatHistory(contactId, scope || undefined), CacheStrategies.chatHistory);
+  }
+  
+  // 📝 Resumo das mensagens da conversa que terminou (junto com o resumo que ela já carregava)
+  // Sem mensagens ou com erro na OpenAI, a nova conversa começa só com o resumo anterior
+  async summarize(openai: OpenAI, messages: ConversationMessage[], previousSummary?: string): Promise<string | undefined> {
+    if (config.threads.summaryMessages <= 0 || messages.length === 0) {
+      return previousSummary;
+    }
+    
+    const transcript = messages
+      .map(message => `${message.role === 'user' ? 'Cliente' : 'Assistente'}: ${message.text}`)
+      .join('\n');
+      
+    try {
+      const completion = await openai.chat.completions.create({
+        model: config.threads.summaryModel,
+        messages: [
+          { role: 'system', content: SUMMARY_INSTRUCTIONS },
+          {
+            role: 'user',
+            content: previousSummary
+              ? `Resumo das conversas anteriores:\n${previousSummary}\n\nÚltima conversa:\n${transcript}`
+              : transcript
+          }
+        ]
+      });
+      
+      const summary = completion.choices[0]?.message?.content?.trim();
+      
+      this.logger.info('📝 Resumo da conversa anterior gerado', {
+        messages: messages.length,
+        tokensUsed: completion.usage?.total_tokens
+      });
+      
+      return summary || previousSummary;
+    } catch (error) {
+      this.logger.error('Erro ao resumir a conversa anterior', error);
+      return previousSummary;
+    }
+  }
+  
+  // Instruções extras do run com o resumo (undefined = conversa sem resumo)
+  describeSummary(conversation?: Pick<ConversationThread, 'summary'> | null): string | undefined {
+    if (!conversation?.summary) {
+      return undefined;
+    }
+    
+    return `Resumo das conversas anteriores com este cliente (contexto para você - não repita ao cliente):\n${conversation.summary}`;
+  }
+  
+  // Redis primeiro; sem cache (expirado ou flush), o banco
+  private async load(contactId: string, scope: string): Promise<ConversationThread | null> {
+    const { value } = await cacheService.get<ConversationThread>(CacheKeys.thread(contactId, scope || undefined), CacheStrategies.thread);
+    
+    // Entradas antigas do cache guardavam a thread da OpenAI, sem o vínculo
+    if (value?.threadId) {
+      return value;
+    }
+    
+    if (!this.persistent) {
+      return null;
+    }
+    
+    try {
+      const [row] = await database.query<ConversationThreadRow>(
+        'SELECT * FROM conversation_threads WHERE contact_id = $1 AND scope = $2 AND closed_at IS NULL',
+        [contactId, scope]
+      );
+      
+      if (!row) {
+        return null;
+      }
+      
+      const conversation: ConversationThread = {
+        contactId: row.contact_id,
+        scope: row.scope,
+        provider: row.provider,
+        threadId: row.thread_id,
+        summary: row.summary || undefined,
+        startedAt: row.started_at.toISOString(),
+        lastActivityAt: row.last_activity_at.toISOString()
+      };
+      
+      await cacheService.set(CacheKeys.thread(contactId, scope || undefined), conversation, CacheStrategies.thread);
+      return conversation;
+    } catch (error) {
+      this.logger.error('Erro ao buscar conversa no PostgreSQL', error, { userId: contactId });
+      return null;
+    }
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const conversationThreads = new ConversationThreadService();
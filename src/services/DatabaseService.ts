@@ -0,0 +1,81 @@
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+
+// 🐘 PostgreSQL (DATABASE_URL)
+// O pool só é criado no primeiro uso - instalações que não usam o banco (ex: THREAD_STORE=redis)
+// não abrem conexão nenhuma
+export class DatabaseService {
+  private pool: Pool | null = null;
+  private logger = createLogger({ service: 'database' });
+  
+  private get client(): Pool {
+    if (!this.pool) {
+      this.pool = new Pool({
+        connectionString: config.database.url,
+        max: config.database.poolSize,
+        connectionTimeoutMillis: 5000
+      });
+      
+      this.pool.on('error', error => {
+        this.logger.error('❌ Erro em conexão ociosa do PostgreSQL', error);
+      });
+    }
+    
+    return this.pool;
+  }
+  
+  // 🔍 Executar consulta e devolver as linhas
+  async query<T extends QueryResultRow = any>(sql: string, params: any[] = []): Promise<T[]> {
+    const result = await this.client.query<T>(sql, params);
+    return result.rows;
+  }
+  
+  // 🔒 Executar várias consultas em uma transação (rollback se alguma falhar)
+  async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.client.connect();
+    
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  // 🏥 Health check
+  async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; latency?: number }> {
+    try {
+      const start = Date.now();
+      await this.client.query('SELECT 1');
+      
+      return { status: 'healthy', latency: Date.now() - start };
+    } catch (error) {
+      this.logger.error('Health check PostgreSQL falhou', error);
+      return { status: 'unhealthy' };
+    }
+  }
+  
+  // 🔒 Fechar conexões
+  async disconnect(): Promise<void> {
+    if (!this.pool) {
+      return;
+    }
+    
+    try {
+      await this.pool.end();
+      this.pool = null;
+      this.logger.info('✅ Conexões PostgreSQL fechadas');
+    } catch (error) {
+      this.logger.error('❌ Erro ao fechar conexões PostgreSQL', error);
+    }
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const database = new DatabaseService();
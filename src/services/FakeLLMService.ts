@@ -0,0 +1,268 @@
+import { readFileSync } from 'fs';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { schemas } from '../utils/validators';
+import type {
+  ConversationMessage,
+  FakeLLMFixtures,
+  FakeLLMRule,
+  FunctionContext,
+  LLMProvider,
+  LLMResponse,
+  ToolCall,
+  ToolCallTiming,
+  ToolOutput
+} from '../types';
+
+// Roteiro usado sem LLM_FAKE_FIXTURES(_FILE): uma regra por função, com os dados vindos da mensagem.
+// Os resultados são fixos - o roteiro embutido não chama o WHMCS nem o Whaticket
+const DEFAULT_FIXTURES: FakeLLMFixtures = {
+  fallback: '🤖 (fake) Recebi: {{message}}',
+  rules: [
+    {
+      name: 'faturas',
+      pattern: '(fatura|boleto|pix).*?(?<identifier>[\\w.+-]+@[\\w-]+\\.[\\w.]+|\\d{3,})',
+      toolCalls: [{
+        name: 'get_client_invoices',
+        arguments: { client_identifier: '{{identifier}}' },
+        result: { success: true, message: '📄 (fake) Faturas de {{identifier}}:\n• #1001 - R$ 49,90 - vence em 10/11 - em aberto' }
+      }],
+      reply: '{{get_client_invoices}}'
+    },
+    {
+      name: 'status',
+      pattern: '(status|servico|site|fora do ar).*?(?<identifier>[\\w.+-]+@[\\w-]+\\.[\\w.]+|\\d{3,})',
+      toolCalls: [{
+        name: 'check_service_status',
+        arguments: { client_identifier: '{{identifier}}' },
+        result: { success: true, message: '🟢 (fake) Serviços de {{identifier}}: hospedagem ativa, sem incidentes' }
+      }],
+      reply: '{{check_service_status}}'
+    },
+    {
+      name: 'ticket',
+      pattern: '(abrir|abre) (um )?(ticket|chamado).*?(?<identifier>[\\w.+-]+@[\\w-]+\\.[\\w.]+|\\d{3,})',
+      toolCalls: [{
+        name: 'create_ticket',
+        arguments: { client_identifier: '{{identifier}}', subject: 'Chamado aberto pelo WhatsApp', message: '{{message}}' },
+        result: { success: true, message: '🎫 (fake) Ticket #100001 aberto para {{identifier}}' }
+      }],
+      reply: '{{create_ticket}}'
+    },
+    {
+      name: 'atendente',
+      keywords: ['atendente', 'humano', 'pessoa'],
+      toolCalls: [{
+        name: 'request_human_agent',
+        arguments: { reason: 'cliente pediu atendente', summary: '{{contactName}} ({{contactNumber}}): {{message}}' },
+        result: { success: true, message: '🙋 (fake) Conversa transferida para um atendente' }
+      }],
+      reply: '{{request_human_agent}}'
+    }
+  ]
+};
+
+// 🧪 Provedor "fake": respostas roteirizadas, sem chamar a OpenAI
+// A primeira regra do roteiro que casar com a mensagem dispara as function calls dela pelo
+// FunctionFactory (mesmo caminho dos provedores reais) e devolve a resposta com os resultados;
+// chamadas com `result` no roteiro não são executadas e devolvem o resultado fixo.
+// Determinístico: a mesma mensagem gera sempre as mesmas chamadas e a mesma resposta
+export class FakeLLMService implements LLMProvider {
+  readonly name = 'fake';
+  private logger = createLogger({ service: 'fake-llm' });
+  private fixtures: FakeLLMFixtures = DEFAULT_FIXTURES;
+  private source = 'default';
+  private conversations = new Map<string, ConversationMessage[]>();
+  private calls = 0;
+  
+  constructor() {
+    this.reload();
+  }
+  
+  // 🔄 Carregar o roteiro (lança erro se for inválido, mantendo o atual)
+  reload(): { source: string; rules: number } {
+    let raw: string | undefined;
+    let source = 'default';
+    
+    if (config.llm.fakeFixtures.file) {
+      raw = readFileSync(config.llm.fakeFixtures.file, 'utf8');
+      source = config.llm.fakeFixtures.file;
+    } else if (config.llm.fakeFixtures.json) {
+      raw = config.llm.fakeFixtures.json;
+      source = 'LLM_FAKE_FIXTURES';
+    }
+    
+    const fixtures = raw ? schemas.fakeLLMFixtures.parse(JSON.parse(raw)) as FakeLLMFixtures : DEFAULT_FIXTURES;
+    
+    // Regex inválida deve falhar no carregamento, não na mensagem do cliente
+    fixtures.rules.forEach(rule => rule.pattern && new RegExp(rule.pattern, 'i'));
+    
+    this.fixtures = fixtures;
+    this.source = source;
+    
+    this.logger.info(`🧪 Provedor fake com ${fixtures.rules.length} regra(s)`, { source });
+    return { source, rules: fixtures.rules.length };
+  }
+  
+  // 💬 Processar mensagem do usuário
+  async processMessage(message: string, userId?: string, context?: FunctionContext): Promise<LLMResponse> {
+    try {
+      const { rule, groups } = this.match(message);
+      const variables: Record<string, string> = {
+        message,
+        contactName: context?.contactName || '',
+        contactNumber: context?.contactNumber || '',
+        ...groups
+      };
+      
+      let timings: ToolCallTiming[] = [];
+      
+      if (rule?.toolCalls?.length) {
+        const toolCalls: ToolCall[] = rule.toolCalls.map(call => ({
+          id: `call_fake_${++this.calls}`,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(this.renderArguments(call.arguments || {}, variables))
+          }
+        }));
+        
+        const outputs = new Map<string, ToolOutput>();
+        const executed = toolCalls.filter((call, index) => {
+          const stub = rule.toolCalls[index].result;
+          
+          if (stub) {
+            outputs.set(call.id, { tool_call_id: call.id, output: JSON.stringify(this.renderArguments(stub, variables)) });
+          }
+          
+          return !stub;
+        });
+        
+        if (executed.length) {
+          const { FunctionFactory } = await import('../factories/FunctionFactory');
+          const result = await FunctionFactory.executeToolCalls(executed, context, 'fake');
+          timings = result.timings;
+          result.outputs.forEach(output => outputs.set(output.tool_call_id, output));
+        }
+        
+        toolCalls.forEach(call => {
+          variables[call.function.name] = this.describeOutput(outputs.get(call.id));
+        });
+      }
+      
+      const response = this.render(rule ? rule.reply : this.fixtures.fallback, variables);
+      
+      if (userId) {
+        this.remember(userId, context?.assistantRoute?.name, message, response);
+      }
+      
+      this.logger.info('🧪 Resposta roteirizada', {
+        userId,
+        rule: rule?.name || 'fallback',
+        toolCalls: timings,
+        stubbed: rule?.toolCalls?.filter(call => call.result).map(call => call.name)
+      });
+      
+      return { success: true, response };
+      
+    } catch (error) {
+      this.logger.error('Erro ao processar mensagem', error, { userId });
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+  
+  // 🎯 Primeira regra que casa com a mensagem (e os grupos nomeados da regex)
+  private match(message: string): { rule?: FakeLLMRule; groups: Record<string, string> } {
+    const normalized = this.normalize(message);
+    
+    for (const rule of this.fixtures.rules) {
+      if (rule.keywords?.some(keyword => normalized.includes(this.normalize(keyword)))) {
+        return { rule, groups: {} };
+      }
+      
+      const found = rule.pattern ? new RegExp(rule.pattern, 'i').exec(normalized) : null;
+      if (found) {
+        return { rule, groups: { ...found.groups } };
+      }
+    }
+    
+    return { groups: {} };
+  }
+  
+  // Mensagem devolvida pela função (o JSON inteiro quando não houver)
+  private describeOutput(output: ToolOutput): string {
+    try {
+      const result = JSON.parse(output.output);
+      return result.message || output.output;
+    } catch {
+      return output.output;
+    }
+  }
+  
+  private renderArguments(value: any, variables: Record<string, string>): any {
+    if (typeof value === 'string') {
+      return this.render(value, variables);
+    }
+    
+    if (Array.isArray(value)) {
+      return value.map(item => this.renderArguments(item, variables));
+    }
+    
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.renderArguments(item, variables)]));
+    }
+    
+    return value;
+  }
+  
+  private render(template: string, variables: Record<string, string>): string {
+    return template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, name) => variables[name] ?? '');
+  }
+  
+  private normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase();
+  }
+  
+  // 🗂️ Conversa em memória (usada no resumo do handoff)
+  private remember(userId: string, scope: string | undefined, message: string, response: string): void {
+    const key = scope ? `${userId}:${scope}` : userId;
+    const createdAt = new Date().toISOString();
+    const history = [
+      ...(this.conversations.get(key) || []),
+      { role: 'user' as const, text: message, createdAt },
+      { role: 'assistant' as const, text: response, createdAt }
+    ];
+    
+    this.conversations.set(key, history.slice(-config.llm.historyMessages));
+  }
+  
+  // 💬 Últimas mensagens da conversa do usuário (mais antigas primeiro; scope = rota da fila)
+  async getRecentMessages(userId: string, limit = 10, scope?: string): Promise<ConversationMessage[]> {
+    return (this.conversations.get(scope ? `${userId}:${scope}` : userId) || []).slice(-limit);
+  }
+  
+  // 🧹 Esquecer as conversas do usuário (a do tenant e as das rotas em scopes)
+  async clearUserThread(userId: string, scopes: string[] = []): Promise<boolean> {
+    return ['', ...scopes]
+      .map(scope => this.conversations.delete(scope ? `${userId}:${scope}` : userId))
+      .some(Boolean);
+  }
+  
+  // 🏥 Health check (sempre saudável - não depende de rede)
+  async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; latency?: number; model?: string; fixtures?: string; rules?: number }> {
+    return {
+      status: 'healthy',
+      latency: 0,
+      model: 'fake',
+      fixtures: this.source,
+      rules: this.fixtures.rules.length
+    };
+  }
+}
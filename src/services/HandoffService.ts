@@ -0,0 +1,290 @@
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService, CacheKeys, CacheStrategies } from './CacheService';
+import { tenantService } from './TenantService';
+import { QueueService } from './QueueService';
+import { businessHoursService } from './BusinessHoursService';
+import type {
+  HandoffJob,
+  HandoffRequestOptions,
+  HandoffState,
+  HandoffTarget,
+  InboundMessage,
+  QueueJob
+} from '../types';
+
+// Resultado de um pedido de transferência
+export interface HandoffResult {
+  success: boolean;
+  state?: HandoffState;
+  // Fora do horário: transferência agendada para a próxima abertura
+  scheduledLabel?: string;
+  error?: string;
+}
+
+// 🙋 Transferência da conversa para um atendente humano
+// O ticket do Whaticket vai para a fila HANDOFF_QUEUE_ID (ou a do tenant) com um resumo para o atendente,
+// e o bot fica em silêncio para o contato até o ticket voltar para outra fila ou ser fechado.
+// Fora do horário de atendimento a transferência vai para a fila 'handoff' até a próxima abertura
+export class HandoffService {
+  private logger = createLogger({ service: 'handoff' });
+  private keywordPatterns: RegExp[];
+  private queue: QueueService<HandoffJob>;
+  
+  constructor() {
+    this.queue = new QueueService<HandoffJob>('handoff');
+    this.keywordPatterns = config.handoff.keywords.map(keyword => {
+      const words = this.normalizeText(keyword).split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      return new RegExp(`(^|[^a-z0-9])${words.join('\\s+')}($|[^a-z0-9])`);
+    });
+  }
+  
+  // ▶️ Iniciar workers das transferências agendadas
+  startWorkers(): void {
+    this.queue.process(job => this.runScheduled(job));
+  }
+  
+  // ⏹️ Parar workers (graceful shutdown)
+  async stopWorkers(): Promise<void> {
+    await this.queue.stop();
+  }
+  
+  // Sem fila configurada não há para onde transferir
+  isEnabled(tenantId?: string): boolean {
+    return this.queueIdFor(tenantId) > 0;
+  }
+  
+  // Fila de atendimento humano no Whaticket do tenant
+  private queueIdFor(tenantId?: string): number {
+    return tenantService.get(tenantId)?.handoffQueueId || 0;
+  }
+  
+  private get cacheOptions() {
+    return { ...CacheStrategies.handoff, ttl: config.handoff.ttl };
+  }
+  
+  // 🔍 Mensagem pede um atendente humano? (sem acento, palavra inteira)
+  matchesKeyword(text: string): boolean {
+    const normalized = this.normalizeText(text);
+    return this.keywordPatterns.some(pattern => pattern.test(normalized));
+  }
+  
+  // 🙋 Pedido de atendimento humano: transfere agora ou agenda para a próxima abertura
+  async request(target: HandoffTarget, options: HandoffRequestOptions): Promise<HandoffResult> {
+    if (!this.isEnabled(target.tenantId)) {
+      return { success: false, error: 'HANDOFF_QUEUE_ID não configurado' };
+    }
+    
+    if (!target.ticketId) {
+      return { success: false, error: `Canal sem ticket no Whaticket: ${target.channel}` };
+    }
+    
+    const hours = businessHoursService.getStatus();
+    if (!hours.open && hours.nextOpenAt && config.businessHours.queueHandoff) {
+      return await this.schedule(target, options, new Date(hours.nextOpenAt));
+    }
+    
+    return await this.transfer(target, options);
+  }
+  
+  // ⏰ Agendar a transferência (o bot continua atendendo até lá)
+  private async schedule(target: HandoffTarget, options: HandoffRequestOptions, at: Date): Promise<HandoffResult> {
+    const delay = Math.max(at.getTime() - Date.now(), 0);
+    const previous = await this.getState(target.contactId);
+    const state: HandoffState = {
+      contactId: target.contactId,
+      channel: target.channel,
+      ticketId: Number(target.ticketId),
+      queueId: this.queueIdFor(target.tenantId),
+      reason: options.reason,
+      requestedBy: options.requestedBy,
+      since: new Date().toISOString(),
+      scheduledFor: at.toISOString(),
+      jobId: `handoff_${target.contactId}_${Date.now()}`
+    };
+    
+    // O estado vai antes do job: com delay 0 o worker pode pegar o job na hora e descartá-lo sem ele
+    await cacheService.set(CacheKeys.handoff(target.contactId), state, {
+      ...this.cacheOptions,
+      ttl: Math.ceil(delay / 1000) + config.handoff.ttl
+    });
+    
+    try {
+      // Um agendamento por contato - o job do pedido anterior é cancelado (ou descartado pelo
+      // runScheduled, se já estiver em execução)
+      if (previous?.jobId) {
+        await this.queue.remove(previous.jobId);
+      }
+      
+      await this.queue.enqueue({ target, options }, { jobId: state.jobId, delay });
+    } catch (error) {
+      this.logger.error('❌ Falha ao agendar transferência', error, { userId: target.contactId });
+      await cacheService.del(CacheKeys.handoff(target.contactId), this.cacheOptions);
+      return { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' };
+    }
+    
+    this.logger.info('⏰ Transferência agendada para a abertura do atendimento', {
+      userId: target.contactId,
+      ticketId: state.ticketId,
+      scheduledFor: state.scheduledFor,
+      requestedBy: options.requestedBy
+    });
+    
+    return { success: true, state, scheduledLabel: businessHoursService.formatLabel(at) };
+  }
+  
+  // ⏰ Executar transferência agendada - erros são relançados para o retry da fila
+  private async runScheduled(job: QueueJob<HandoffJob>): Promise<void> {
+    const { target, options } = job.data;
+    const state = await this.getState(target.contactId);
+    
+    // Liberado antes da abertura (ticket fechado, novo ticket ou admin) ou substituído por outro pedido
+    if (!state?.scheduledFor || (state.jobId && state.jobId !== job.id)) {
+      this.logger.info('Transferência agendada descartada', { userId: target.contactId });
+      return;
+    }
+    
+    const result = await this.transfer(target, options);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+  
+  // 🔀 Transferir ticket para a fila de atendimento humano e registrar o handoff
+  private async transfer(target: HandoffTarget, options: HandoffRequestOptions): Promise<HandoffResult> {
+    const ticketId = Number(target.ticketId);
+    const queueId = this.queueIdFor(target.tenantId);
+    const whaticket = tenantService.getWhaticket(target.tenantId);
+    
+    try {
+      const ticket = await whaticket.transferTicket(ticketId, queueId);
+      
+      // Resumo para o atendente - falha aqui não desfaz a transferência
+      try {
+        await whaticket.addTicketNote(ticketId, this.buildNote(target, options), ticket?.contactId);
+      } catch (error) {
+        this.logger.warn('Não foi possível adicionar o resumo ao ticket', {
+          ticketId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    } catch (error) {
+      this.logger.error('❌ Falha ao transferir ticket para atendimento humano', error, {
+        ticketId,
+        queueId,
+        userId: target.contactId
+      });
+      
+      return { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' };
+    }
+    
+    const state: HandoffState = {
+      contactId: target.contactId,
+      channel: target.channel,
+      ticketId,
+      queueId,
+      reason: options.reason,
+      requestedBy: options.requestedBy,
+      since: new Date().toISOString()
+    };
+    
+    await cacheService.set(CacheKeys.handoff(target.contactId), state, this.cacheOptions);
+    
+    this.logger.info('🙋 Conversa transferida para atendente humano', {
+      userId: target.contactId,
+      ticketId,
+      queueId,
+      requestedBy: options.requestedBy,
+      reason: options.reason
+    });
+    
+    return { success: true, state };
+  }
+  
+  // 🔍 Handoff registrado para o contato (sem checar o ticket)
+  async getState(contactId: string): Promise<HandoffState | null> {
+    const { value } = await cacheService.get<HandoffState>(CacheKeys.handoff(contactId), this.cacheOptions);
+    return value;
+  }
+  
+  // 🤐 Bot deve ficar em silêncio para esta mensagem?
+  // O handoff é liberado quando o ticket foi fechado, voltou para outra fila ou foi substituído por um novo.
+  // Com a transferência apenas agendada o bot continua respondendo
+  async isActive(message: InboundMessage): Promise<HandoffState | null> {
+    const state = await this.getState(message.contactId);
+    
+    if (!state) {
+      return null;
+    }
+    
+    const releaseReason = this.getReleaseReason(state, message);
+    if (releaseReason) {
+      await this.release(message.contactId, releaseReason);
+      return null;
+    }
+    
+    return state.scheduledFor ? null : state;
+  }
+  
+  // ✅ Devolver a conversa ao bot
+  async release(contactId: string, reason: string): Promise<boolean> {
+    const released = await cacheService.del(CacheKeys.handoff(contactId), this.cacheOptions);
+    
+    if (released) {
+      this.logger.info('🤖 Conversa devolvida ao bot', { userId: contactId, reason });
+    }
+    
+    return released;
+  }
+  
+  private getReleaseReason(state: HandoffState, message: InboundMessage): string | null {
+    if (message.ticketStatus === 'closed') {
+      return 'ticket fechado';
+    }
+    
+    if (message.ticketId && Number(message.ticketId) !== state.ticketId) {
+      return 'novo ticket';
+    }
+    
+    if (!state.scheduledFor && message.queueId && Number(message.queueId) !== state.queueId) {
+      return 'ticket devolvido para outra fila';
+    }
+    
+    return null;
+  }
+  
+  // 📝 Observação interna com o motivo, o resumo e as últimas mensagens
+  private buildNote(target: HandoffTarget, options: HandoffRequestOptions): string {
+    const contact = [target.contactName, target.contactNumber].filter(Boolean).join(' - ') || target.contactId;
+    const origin = options.requestedBy === 'assistant' ? 'pelo assistente' : 'a pedido do cliente';
+    
+    let note = `🤖 Conversa transferida ${origin}\n`;
+    note += `👤 Cliente: ${contact}\n`;
+    note += `❓ Motivo: ${options.reason}\n`;
+    
+    if (options.summary) {
+      note += `\n📋 Resumo:\n${options.summary}\n`;
+    }
+    
+    if (options.transcript?.length) {
+      note += '\n💬 Últimas mensagens:\n';
+      for (const item of options.transcript) {
+        const author = item.role === 'user' ? 'Cliente' : 'Assistente';
+        const text = item.text.length > 300 ? `${item.text.substring(0, 297)}...` : item.text;
+        note += `${author}: ${text}\n`;
+      }
+    }
+    
+    return note.trim();
+  }
+  
+  private normalizeText(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase();
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const handoffService = new HandoffService();
@@ -0,0 +1,115 @@
+import type Redis from 'ioredis';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService } from './CacheService';
+import type { BufferedMessage } from '../types';
+
+// 📜 Adiciona mensagem ao buffer e estende a janela (limitada por maxWait desde a primeira)
+const APPEND_SCRIPT = `
+redis.call('RPUSH', KEYS[1], ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+local now = tonumber(ARGV[2])
+local firstAt = tonumber(redis.call('GET', KEYS[3]))
+if not firstAt then
+  firstAt = now
+  redis.call('SET', KEYS[3], firstAt, 'EX', ARGV[5])
+end
+local flushAt = math.min(now + tonumber(ARGV[3]), firstAt + tonumber(ARGV[4]))
+redis.call('SET', KEYS[2], flushAt, 'EX', ARGV[5])
+local schedule = redis.call('SET', KEYS[4], '1', 'NX', 'EX', ARGV[5])
+if schedule then return {flushAt, 1} end
+return {flushAt, 0}
+`;
+
+// 📜 Fecha a janela (ou devolve o prazo, se ela ainda está aberta)
+const CLOSE_WINDOW_SCRIPT = `
+local flushAt = tonumber(redis.call('GET', KEYS[2])) or 0
+if flushAt > tonumber(ARGV[1]) then return flushAt end
+redis.call('DEL', KEYS[2], KEYS[3], KEYS[4])
+return 0
+`;
+
+// ⏳ Janela de debounce por contato: junta rajadas de mensagens curtas em um único turno
+// O estado fica no Redis, então qualquer instância pode receber ou processar as mensagens
+export class MessageDebouncer {
+  private logger = createLogger({ service: 'debounce' });
+  private windowMs: number;
+  private maxWaitMs: number;
+  
+  constructor() {
+    this.windowMs = config.debounce.window * 1000;
+    this.maxWaitMs = Math.max(config.debounce.maxWait * 1000, this.windowMs);
+  }
+  
+  get enabled(): boolean {
+    return this.windowMs > 0;
+  }
+  
+  private get redis(): Redis {
+    return cacheService.getClient();
+  }
+  
+  private keys(userId: string): string[] {
+    return ['messages', 'flushAt', 'firstAt', 'scheduled'].map(suffix =>
+      cacheService.buildKey(`${userId}:${suffix}`, 'debounce')
+    );
+  }
+  
+  // TTL de segurança: o buffer sobrevive mesmo com a fila atrasada
+  private get ttlSeconds(): number {
+    return Math.ceil(this.maxWaitMs / 1000) + 86400;
+  }
+  
+  // ➕ Adicionar mensagem ao buffer do contato
+  // scheduleFlush = true quando nenhum flush está agendado e o chamador deve enfileirar um
+  async append(userId: string, message: BufferedMessage): Promise<{ flushAt: number; scheduleFlush: boolean }> {
+    const [flushAt, schedule] = await this.redis.eval(
+      APPEND_SCRIPT, 4,
+      ...this.keys(userId),
+      JSON.stringify(message), Date.now(), this.windowMs, this.maxWaitMs, this.ttlSeconds
+    ) as [number, number];
+    
+    this.logger.debug('Mensagem adicionada à janela de debounce', {
+      userId,
+      requestId: message.requestId,
+      flushAt,
+      scheduleFlush: schedule === 1
+    });
+    
+    return { flushAt, scheduleFlush: schedule === 1 };
+  }
+  
+  // 📥 Coletar mensagens da janela
+  // Se a janela ainda está aberta retorna pendingUntil; as mensagens continuam no buffer
+  // até acknowledge(), para não se perderem se o processo cair no meio
+  async collect(userId: string): Promise<{ pendingUntil?: number; messages: BufferedMessage[] }> {
+    const keys = this.keys(userId);
+    const flushAt = await this.redis.eval(
+      CLOSE_WINDOW_SCRIPT, 4,
+      ...keys,
+      Date.now()
+    ) as number;
+    
+    if (flushAt > 0) {
+      return { pendingUntil: flushAt, messages: [] };
+    }
+    
+    // Mensagens que chegarem depois do fechamento entram neste lote; o flush
+    // agendado por elas encontrará o buffer vazio
+    const raws = await this.redis.lrange(keys[0], 0, -1);
+    return { messages: raws.map(raw => JSON.parse(raw)) };
+  }
+  
+  // ✅ Remover do buffer as mensagens já coletadas
+  async acknowledge(userId: string, count: number): Promise<void> {
+    if (count <= 0) {
+      return;
+    }
+    
+    const [messagesKey] = this.keys(userId);
+    await this.redis.ltrim(messagesKey, count, -1);
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const messageDebouncer = new MessageDebouncer();
@@ -1,32 +1,42 @@
 import OpenAI from 'openai';
+import type { RunCreateParamsBaseStream } from 'openai/lib/AssistantStream';
 import { config } from '../config';
 import { createLogger } from '../utils/logger';
+import { businessHoursService } from './BusinessHoursService';
 import { cacheService, CacheKeys, CacheStrategies } from './CacheService';
+import { conversationThreads } from './ConversationThreadService';
 import type { 
-  OpenAIThread, 
   OpenAIRun, 
-  ToolCall, 
-  ToolOutput, 
+  ToolCallTiming,
+  ConversationMessage,
+  ConversationThread,
   FunctionContext,
-  FunctionResult 
+  AssistantRoute,
+  LLMProvider,
+  LLMResponse,
+  TenantConfig,
+  ThreadMessageRef,
+  TokenUsage
 } from '../types';
 
-// 🤖 Serviço principal do OpenAI Assistant
-export class OpenAIAssistantService {
+// 🤖 Provedor "assistants": Assistants API da OpenAI (threads e runs mantidos na OpenAI)
+export class OpenAIAssistantService implements LLMProvider {
+  readonly name = 'assistants';
   private openai: OpenAI;
   private assistantId: string;
   private logger = createLogger({ service: 'openai' });
   
-  constructor() {
+  // Sem opções usa o assistant do .env; tenants informam o próprio assistant (e a chave, se tiverem)
+  constructor(options: Partial<TenantConfig['openai']> = {}) {
     // Inicializar OpenAI client com configurações do .env
     this.openai = new OpenAI({
-      apiKey: config.openai.apiKey,
-      organization: config.openai.organizationId,
+      apiKey: options.apiKey || config.openai.apiKey,
+      organization: options.apiKey ? undefined : config.openai.organizationId,
       maxRetries: config.openai.maxRetries,
       timeout: config.openai.timeout
     });
     
-    this.assistantId = config.openai.assistantId;
+    this.assistantId = options.assistantId || config.openai.assistantId;
     
     this.logger.info(`✅ OpenAI Assistant configurado: ${this.assistantId}`);
   }
@@ -36,44 +46,74 @@ export class OpenAIAssistantService {
     message: string, 
     userId?: string, 
     context?: FunctionContext
-  ): Promise<{ success: boolean; response?: string; error?: string }> {
+  ): Promise<LLMResponse> {
+    let threadMessage: ThreadMessageRef | undefined = context?.threadMessage;
+    
     try {
       this.logger.openaiRequest('processMessage', { userId, messageLength: message.length });
       
-      // 1. Obter ou criar thread
-      const thread = await this.getOrCreateThread(userId);
+      // Fila com rota própria: outro assistant, funções restritas e thread separada
+      const route = context?.assistantRoute;
       
-      // 2. Adicionar mensagem do usuário
-      await this.openai.beta.threads.messages.create(thread.id, {
-        role: 'user',
-        content: message
-      });
+      // 1. Obter ou criar thread (conversa nova recebe o resumo da anterior)
+      const conversation = await this.getOrCreateThread(userId, route?.name);
+      const threadId = conversation.threadId;
+      
+      // 2. Garantir que não há run pendente (ex: run de tentativa anterior que expirou)
+      await this.cancelActiveRuns(threadId);
+      
+      // 3. Adicionar mensagem do usuário (no retry, só se a da tentativa anterior ficou em outra thread)
+      if (threadMessage?.threadId !== threadId) {
+        const created = await this.openai.beta.threads.messages.create(threadId, {
+          role: 'user',
+          content: message
+        });
+        threadMessage = { threadId, messageId: created.id };
+      }
       
-      // 3. Executar assistant
-      const run = await this.openai.beta.threads.runs.create(thread.id, {
-        assistant_id: this.assistantId,
+      // 4. Executar assistant em streaming (function calls atendidas durante o run)
+      const runContext: FunctionContext = { ...context, threadId };
+      const additionalInstructions = [
+        conversationThreads.describeSummary(conversation),
+        businessHoursService.describeForAssistant(context?.businessHours)
+      ].filter(Boolean).join('\n\n');
+      
+      const { run, text, toolCalls } = await this.streamRun(threadId, {
+        assistant_id: route?.assistantId || this.assistantId,
+        tools: await this.buildRouteTools(route),
+        additional_instructions: additionalInstructions || undefined,
         metadata: {
           userId: userId || 'anonymous',
+          route: route?.name,
           timestamp: new Date().toISOString(),
           ...context?.metadata
         }
-      });
+      }, runContext);
       
-      // 4. Aguardar completion
-      const completedRun = await this.waitForCompletion(thread.id, run.id);
+      // 5. Resposta montada pelos deltas (sem texto no stream, busca a última mensagem da thread)
+      const response = text || await this.getResponse(threadId);
       
-      // 5. Obter resposta
-      const response = await this.getResponse(thread.id);
+      // 6. Tokens do run inteiro (todas as etapas), para custo e orçamento
+      const usage: TokenUsage | undefined = run.usage ? {
+        model: run.model || config.openai.model,
+        promptTokens: run.usage.prompt_tokens,
+        completionTokens: run.usage.completion_tokens,
+        totalTokens: run.usage.total_tokens
+      } : undefined;
       
-      this.logger.openaiResponse('processMessage', undefined, { 
+      this.logger.openaiResponse('processMessage', usage?.totalTokens, { 
         userId, 
+        route: route?.name,
         runId: run.id,
-        status: completedRun.status 
+        status: run.status,
+        toolCalls
       });
       
       return {
         success: true,
-        response
+        response,
+        usage,
+        threadMessage
       };
       
     } catch (error) {
@@ -81,149 +121,217 @@ export class OpenAIAssistantService {
       
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Erro desconhecido'
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+        threadMessage
       };
     }
   }
   
-  // 🧵 Obter ou criar thread para usuário
-  private async getOrCreateThread(userId?: string): Promise<OpenAIThread> {
-    if (!userId) {
-      // Thread temporária para usuários anônimos
-      return await this.openai.beta.threads.create();
+  // 🧰 Tools do run na rota com `functions`: as ferramentas nativas do assistant (file search, code
+  // interpreter) mais só as funções liberadas - o `tools` do run substitui todas as do assistant
+  // (undefined = tools do assistant)
+  private async buildRouteTools(route?: AssistantRoute): Promise<OpenAI.Beta.AssistantTool[] | undefined> {
+    if (!route?.functions) {
+      return undefined;
     }
     
-    const cacheKey = CacheKeys.thread(userId);
+    const { FunctionFactory } = await import('../factories/FunctionFactory');
+    const functions = FunctionFactory.getOpenAIFunctionDefinitions(route.functions) as OpenAI.Beta.FunctionTool[];
     
-    return await cacheService.getOrSet(
-      cacheKey,
-      async () => {
-        this.logger.info(`Criando nova thread para usuário: ${userId}`);
-        
-        const thread = await this.openai.beta.threads.create({
-          metadata: {
-            userId,
-            createdAt: new Date().toISOString()
-          }
-        });
-        
-        return thread;
-      },
-      CacheStrategies.thread
-    );
+    return [...await this.getBuiltInTools(route.assistantId), ...functions];
   }
   
-  // ⏳ Aguardar completion do run com polling
-  private async waitForCompletion(threadId: string, runId: string): Promise<OpenAIRun> {
-    const maxAttempts = 30; // 30 tentativas = ~30 segundos
-    const pollInterval = 1000; // 1 segundo
-    
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      const run = await this.openai.beta.threads.runs.retrieve(threadId, runId);
-      
-      this.logger.debug(`Run status: ${run.status}`, { 
-        threadId, 
-        runId, 
-        attempt, 
-        status: run.status 
+  // Ferramentas do assistant que não são funções (em cache; updateAssistant limpa)
+  private async getBuiltInTools(assistantId: string): Promise<OpenAI.Beta.AssistantTool[]> {
+    try {
+      return await cacheService.getOrSet(
+        CacheKeys.assistantTools(assistantId),
+        async () => (await this.retrieveAssistant(assistantId)).tools.filter(tool => tool.type !== 'function'),
+        CacheStrategies.assistantTools
+      );
+    } catch (error) {
+      this.logger.warn('Não foi possível obter as tools do assistant - run só com as funções da rota', {
+        assistantId,
+        error: error instanceof Error ? error.message : String(error)
       });
-      
-      switch (run.status) {
-        case 'completed':
-          return run;
-          
-        case 'requires_action':
-          if (run.required_action?.type === 'submit_tool_outputs') {
-            return await this.handleFunctionCalls(threadId, runId, run);
-          }
-          break;
-          
-        case 'failed':
-        case 'cancelled':
-        case 'expired':
-          throw new Error(`Run falhou com status: ${run.status}`);
-          
-        case 'queued':
-        case 'in_progress':
-        case 'cancelling':
-          // Continuar polling
-          await this.sleep(pollInterval);
-          break;
-      }
+      return [];
     }
-    
-    throw new Error('Timeout aguardando completion do run');
   }
   
-  // 🔧 Processar function calls
-  private async handleFunctionCalls(threadId: string, runId: string, run: OpenAIRun): Promise<OpenAIRun> {
-    if (!run.required_action?.submit_tool_outputs?.tool_calls) {
-      throw new Error('Tool calls não encontradas');
+  // 🧵 Obter ou criar thread para usuário (uma por rota de fila, para não misturar contextos)
+  // Depois de THREAD_INACTIVITY_TIMEOUT sem mensagens, uma thread nova começa com o resumo da anterior
+  private async getOrCreateThread(userId?: string, scope?: string): Promise<Pick<ConversationThread, 'threadId' | 'summary'>> {
+    if (!userId) {
+      // Thread temporária para usuários anônimos
+      const thread = await this.openai.beta.threads.create();
+      return { threadId: thread.id };
     }
     
-    const toolCalls = run.required_action.submit_tool_outputs.tool_calls;
-    this.logger.info(`Processando ${toolCalls.length} function calls`, { threadId, runId });
-    
-    const toolOutputs: ToolOutput[] = [];
+    const { active, expired } = await conversationThreads.get(userId, scope, this.name);
     
-    for (const toolCall of toolCalls) {
-      try {
-        const output = await this.executeFunctionCall(toolCall);
-        toolOutputs.push({
-          tool_call_id: toolCall.id,
-          output: JSON.stringify(output)
-        });
-      } catch (error) {
-        this.logger.error(`Erro ao executar function call: ${toolCall.function.name}`, error);
-        
-        toolOutputs.push({
-          tool_call_id: toolCall.id,
-          output: JSON.stringify({
-            success: false,
-            message: '❌ Erro interno ao processar função',
-            error: error instanceof Error ? error.message : 'Erro desconhecido'
-          })
-        });
-      }
+    if (active) {
+      await conversationThreads.touch(active);
+      return active;
     }
     
-    // Submeter outputs e continuar run
-    await this.openai.beta.threads.runs.submitToolOutputs(threadId, runId, {
-      tool_outputs: toolOutputs
+    this.logger.info(`Criando nova thread para usuário: ${userId}`, { route: scope, previousThreadId: expired?.threadId });
+    
+    const summary = expired?.provider === this.name
+      ? await conversationThreads.summarize(
+        this.openai,
+        await this.listThreadMessages(expired.threadId, config.threads.summaryMessages),
+        expired.summary
+      )
+      : expired?.summary;
+      
+    const thread = await this.openai.beta.threads.create({
+      metadata: {
+        userId,
+        ...(scope ? { route: scope } : {}),
+        createdAt: new Date().toISOString()
+      }
     });
     
-    // Aguardar completion novamente
-    return await this.waitForCompletion(threadId, runId);
+    return await conversationThreads.start({
+      contactId: userId,
+      scope: scope || '',
+      provider: this.name,
+      threadId: thread.id,
+      summary
+    });
   }
   
-  // ⚡ Executar function call individual
-  private async executeFunctionCall(toolCall: ToolCall): Promise<FunctionResult> {
-    const { name, arguments: argsString } = toolCall.function;
+  // 🛑 Cancelar runs ainda ativos na thread
+  // As mensagens de um contato são processadas em ordem (fila agrupada), então um run
+  // ativo aqui é resto de uma tentativa anterior e bloquearia o novo run
+  private async cancelActiveRuns(threadId: string): Promise<void> {
+    const activeStatuses = ['queued', 'in_progress', 'requires_action'];
+    const runs = await this.openai.beta.threads.runs.list(threadId, { limit: 5 });
     
-    this.logger.info(`Executando function: ${name}`, { 
-      functionName: name,
-      toolCallId: toolCall.id 
-    });
+    for (const run of runs.data) {
+      if (!activeStatuses.includes(run.status)) {
+        continue;
+      }
+      
+      this.logger.warn('Cancelando run ativo antes de nova mensagem', { threadId, runId: run.id, status: run.status });
+      
+      try {
+        await this.openai.beta.threads.runs.cancel(threadId, run.id);
+        await this.waitForTerminalStatus(threadId, run.id);
+      } catch (error) {
+        this.logger.error('Erro ao cancelar run ativo', error, { threadId, runId: run.id });
+      }
+    }
+  }
+  
+  // ⏳ Aguardar run cancelado sair do estado "cancelling"
+  private async waitForTerminalStatus(threadId: string, runId: string): Promise<void> {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const run = await this.openai.beta.threads.runs.retrieve(threadId, runId);
+      
+      if (!['queued', 'in_progress', 'requires_action', 'cancelling'].includes(run.status)) {
+        return;
+      }
+      
+      await this.sleep(500);
+    }
+  }
+  
+  // 📡 Executar run em streaming até um estado final
+  // requires_action executa as funções e continua pelo stream de submitToolOutputs; o prazo
+  // OPENAI_RUN_TIMEOUT vale para o run inteiro (todas as etapas) e, estourado, o run é cancelado
+  private async streamRun(
+    threadId: string,
+    params: RunCreateParamsBaseStream,
+    context?: FunctionContext
+  ): Promise<{ run: OpenAIRun; text: string; toolCalls: ToolCallTiming[] }> {
+    const controller = new AbortController();
+    const deadline = setTimeout(() => controller.abort(), config.openai.runTimeout);
+    let stream = this.openai.beta.threads.runs.stream(threadId, params, { signal: controller.signal });
+    let runId: string | undefined;
+    let text = '';
+    const toolCalls: ToolCallTiming[] = [];
     
     try {
-      const args = JSON.parse(argsString);
+      while (true) {
+        let pending: OpenAIRun | null = null;
+        
+        for await (const event of stream) {
+          switch (event.event) {
+            case 'thread.run.created':
+              runId = event.data.id;
+              this.logger.debug('Run iniciado', { threadId, runId });
+              break;
+              
+            // Só o texto da última mensagem vira resposta (mensagens de etapas anteriores ficam na thread)
+            case 'thread.message.created':
+              text = '';
+              break;
+              
+            case 'thread.message.delta':
+              for (const content of event.data.delta.content || []) {
+                if (content.type === 'text' && content.text?.value) {
+                  text += content.text.value;
+                }
+              }
+              break;
+              
+            case 'thread.run.requires_action':
+              pending = event.data as OpenAIRun;
+              break;
+              
+            case 'thread.run.completed':
+              return { run: event.data as OpenAIRun, text: text.trim(), toolCalls };
+              
+            case 'thread.run.failed':
+            case 'thread.run.cancelled':
+            case 'thread.run.expired':
+            case 'thread.run.incomplete': {
+              const reason = event.data.last_error?.message || event.data.incomplete_details?.reason;
+              throw new Error(`Run falhou com status: ${event.data.status}${reason ? ` (${reason})` : ''}`);
+            }
+            
+            case 'error':
+              throw new Error(`Erro no stream do run: ${event.data.message || 'desconhecido'}`);
+          }
+        }
+        
+        if (pending?.required_action?.type !== 'submit_tool_outputs') {
+          throw new Error('Stream do run encerrado sem estado final');
+        }
+        
+        const requested = pending.required_action.submit_tool_outputs.tool_calls;
+        this.logger.info(`Processando ${requested.length} function calls`, { threadId, runId: pending.id });
+        
+        const { FunctionFactory } = await import('../factories/FunctionFactory');
+        const { outputs: toolOutputs, timings } = await FunctionFactory.executeToolCalls(requested, context, 'openai_assistant');
+        toolCalls.push(...timings);
+        
+        stream = this.openai.beta.threads.runs.submitToolOutputsStream(
+          threadId,
+          pending.id,
+          { tool_outputs: toolOutputs },
+          { signal: controller.signal }
+        );
+      }
       
-      // Integrar com FunctionFactory
-      const { FunctionFactory } = await import('../factories/FunctionFactory');
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
       
-      return await FunctionFactory.execute(name, args, {
-        sessionId: toolCall.id,
-        metadata: { source: 'openai_assistant' }
-      });
+      // Prazo estourado: o run preso não pode bloquear a próxima mensagem do contato
+      this.logger.warn('Prazo do run esgotado - cancelando', { threadId, runId, duration: config.openai.runTimeout });
       
-    } catch (error) {
-      this.logger.error(`Erro ao parsear argumentos da função ${name}`, error);
+      if (runId) {
+        await this.openai.beta.threads.runs.cancel(threadId, runId)
+          .catch(cancelError => this.logger.error('Erro ao cancelar run expirado', cancelError, { threadId, runId }));
+      }
       
-      return {
-        success: false,
-        message: '❌ Erro ao processar argumentos da função',
-        error: 'Argumentos inválidos'
-      };
+      throw new Error('Timeout aguardando conclusão do run');
+      
+    } finally {
+      clearTimeout(deadline);
     }
   }
   
@@ -247,14 +355,54 @@ export class OpenAIAssistantService {
     return 'Resposta inválida';
   }
   
-  // 🧹 Limpar thread de um usuário
-  async clearUserThread(userId: string): Promise<boolean> {
+  // 💬 Últimas mensagens da conversa do usuário (mais antigas primeiro; scope = rota da fila)
+  // A conversa encerrada por inatividade também vale (é a última que o cliente teve)
+  async getRecentMessages(userId: string, limit = 10, scope?: string): Promise<ConversationMessage[]> {
+    const { active, expired } = await conversationThreads.get(userId, scope, this.name);
+    const conversation = active || (expired?.provider === this.name ? expired : null);
+    
+    if (!conversation) {
+      return [];
+    }
+    
+    return await this.listThreadMessages(conversation.threadId, limit, userId);
+  }
+  
+  // 📜 Últimas mensagens de uma thread (mais antigas primeiro; vazio se a thread não puder ser lida)
+  private async listThreadMessages(threadId: string, limit: number, userId?: string): Promise<ConversationMessage[]> {
+    if (limit <= 0) {
+      return [];
+    }
+    
+    try {
+      const messages = await this.openai.beta.threads.messages.list(threadId, { order: 'desc', limit });
+      
+      return messages.data
+        .map(message => ({
+          role: message.role,
+          text: message.content
+            .map(content => content.type === 'text' ? content.text.value : '')
+            .join('\n')
+            .trim(),
+          createdAt: new Date(message.created_at * 1000).toISOString()
+        }))
+        .filter(message => message.text)
+        .reverse();
+        
+    } catch (error) {
+      this.logger.error('Erro ao obter mensagens da thread', error, { userId, threadId });
+      return [];
+    }
+  }
+  
+  // 🧹 Limpar as threads de um usuário (a do tenant e as das rotas em scopes) - a próxima
+  // mensagem começa uma conversa nova, sem o resumo da anterior
+  async clearUserThread(userId: string, scopes: string[] = []): Promise<boolean> {
     try {
-      const cacheKey = CacheKeys.thread(userId);
-      await cacheService.del(cacheKey);
+      const closed = await Promise.all(['', ...scopes].map(scope => conversationThreads.close(userId, scope)));
       
-      this.logger.info(`Thread limpa para usuário: ${userId}`);
-      return true;
+      this.logger.info(`Thread limpa para usuário: ${userId}`, { routes: scopes.length });
+      return closed.some(Boolean);
       
     } catch (error) {
       this.logger.error(`Erro ao limpar thread do usuário ${userId}`, error);
@@ -262,6 +410,20 @@ export class OpenAIAssistantService {
     }
   }
   
+  // 🔍 Configuração remota de um assistant da conta (padrão: o assistant do tenant)
+  async retrieveAssistant(assistantId = this.assistantId): Promise<OpenAI.Beta.Assistant> {
+    return await this.openai.beta.assistants.retrieve(assistantId);
+  }
+  
+  // ✏️ Atualizar modelo, instruções e tools de um assistant da conta
+  async updateAssistant(assistantId: string, params: OpenAI.Beta.AssistantUpdateParams): Promise<OpenAI.Beta.Assistant> {
+    const assistant = await this.openai.beta.assistants.update(assistantId, params);
+    await cacheService.del(CacheKeys.assistantTools(assistantId), CacheStrategies.assistantTools);
+    
+    this.logger.info(`✏️ Assistant atualizado: ${assistantId}`, { fields: Object.keys(params).join(',') });
+    return assistant;
+  }
+  
   // 📊 Obter informações do assistant
   async getAssistantInfo(): Promise<any> {
     try {
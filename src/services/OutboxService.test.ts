@@ -0,0 +1,44 @@
+import { after, afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import RedisMock from 'ioredis-mock';
+import { config } from '../config';
+import { cacheService } from './CacheService';
+import { outboxService } from './OutboxService';
+import type { InboundMessage } from '../types';
+
+// 🧪 Gravação das partes da resposta na outbox
+describe('OutboxService.enqueue', () => {
+  const redis = cacheService.getClient();
+  const maxLength = config.outbox.maxLength;
+  const message = { channel: 'whatsapp', contactId: 'whatsapp_5511999999999', tenantId: 'default' } as InboundMessage;
+  const text = ['Primeira parte.', 'Segunda parte.', 'Terceira parte.'].join('\n\n');
+
+  beforeEach(async () => {
+    config.outbox.maxLength = 20;
+    cacheService.setClient(new RedisMock());
+    await cacheService.getClient().flushall();
+  });
+
+  afterEach(() => {
+    config.outbox.maxLength = maxLength;
+  });
+
+  after(() => {
+    cacheService.setClient(redis);
+  });
+
+  test('grava cada parte na ordem e avisa a cada uma', async () => {
+    const queued: number[] = [];
+    const records = await outboxService.enqueue(message, text, 'test', { onPartQueued: record => queued.push(record.part) });
+
+    assert.deepEqual(records.map(record => record.text), ['Primeira parte.', 'Segunda parte.', 'Terceira parte.']);
+    assert.deepEqual(queued, [1, 2, 3]);
+  });
+
+  test('no retry, grava só as partes que faltaram', async () => {
+    const records = await outboxService.enqueue(message, text, 'test', { skipParts: 2 });
+
+    assert.deepEqual(records.map(record => `${record.part}/${record.parts}`), ['3/3']);
+    assert.equal(records[0].text, 'Terceira parte.');
+  });
+});
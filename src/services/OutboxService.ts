@@ -0,0 +1,235 @@
+import type Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService } from './CacheService';
+import { QueueService } from './QueueService';
+import { ChannelFactory } from '../factories/ChannelFactory';
+import { formatOutboundMessage } from '../utils/whatsappFormatter';
+import type { InboundMessage, OutboundMessageJob, OutboxEnqueueOptions, OutboxMessage, QueueJob } from '../types';
+
+// 📤 Outbox de mensagens de saída
+// Toda resposta é formatada para o WhatsApp, dividida em partes e gravada antes do envio;
+// a fila 'outbound' entrega cada parte (retry com backoff, em ordem por contato).
+// O registro guarda o status da entrega: pending → sent | failed
+export class OutboxService {
+  private queue: QueueService<OutboundMessageJob>;
+  private logger = createLogger({ service: 'outbox' });
+  
+  constructor() {
+    this.queue = new QueueService<OutboundMessageJob>('outbound');
+  }
+  
+  private get redis(): Redis {
+    return cacheService.getClient();
+  }
+  
+  private recordKey(id: string): string {
+    return cacheService.buildKey(`message:${id}`, 'outbox');
+  }
+  
+  private contactKey(contactId: string): string {
+    return cacheService.buildKey(`contact:${contactId}`, 'outbox');
+  }
+  
+  // ▶️ Iniciar workers de envio
+  startWorkers(): void {
+    this.queue.process(
+      job => this.deliver(job),
+      { onDead: (job, error) => this.markFailed(job, error) }
+    );
+  }
+  
+  // ⏹️ Parar workers (graceful shutdown)
+  async stopWorkers(): Promise<void> {
+    await this.queue.stop();
+  }
+  
+  // ➕ Gravar resposta na outbox e agendar o envio (lança erro se o Redis estiver indisponível)
+  // Respostas longas viram várias mensagens, entregues na ordem; no retry, `skipParts` pula as
+  // partes já gravadas (a divisão do mesmo texto é sempre a mesma)
+  async enqueue(message: InboundMessage, text: string, requestId: string, options: OutboxEnqueueOptions = {}): Promise<OutboxMessage[]> {
+    const parts = formatOutboundMessage(text, {
+      markdown: config.outbox.markdown,
+      maxLength: config.outbox.maxLength
+    });
+    
+    const records: OutboxMessage[] = [];
+    for (const [index, part] of parts.entries()) {
+      if (index < (options.skipParts || 0)) {
+        continue;
+      }
+      
+      const record = await this.enqueuePart(message, part, requestId, index + 1, parts.length);
+      records.push(record);
+      options.onPartQueued?.(record);
+    }
+    
+    return records;
+  }
+  
+  // ➕ Gravar uma parte e agendar o envio
+  private async enqueuePart(message: InboundMessage, text: string, requestId: string, part: number, parts: number): Promise<OutboxMessage> {
+    const now = new Date().toISOString();
+    const record: OutboxMessage = {
+      id: randomUUID(),
+      channel: message.channel,
+      contactId: message.contactId,
+      contactNumber: message.contactNumber,
+      text,
+      part,
+      parts,
+      status: 'pending',
+      attempts: 0,
+      requestId,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    await this.redis.multi()
+      .set(this.recordKey(record.id), JSON.stringify(record), 'EX', config.outbox.retention)
+      .zadd(this.contactKey(record.contactId), Date.now(), record.id)
+      .zremrangebyrank(this.contactKey(record.contactId), 0, -(config.outbox.historyLimit + 1))
+      .expire(this.contactKey(record.contactId), config.outbox.retention)
+      .exec();
+      
+    try {
+      await this.queue.enqueue(
+        { outboxId: record.id, requestId, message, text },
+        { jobId: record.id, groupId: message.contactId }
+      );
+    } catch (error) {
+      await this.saveRecord({ ...record, status: 'failed', failedAt: new Date().toISOString(), lastError: error.message })
+        .catch(() => undefined);
+      throw error;
+    }
+    
+    this.logger.debug('Mensagem gravada na outbox', {
+      requestId,
+      outboxId: record.id,
+      channel: record.channel,
+      userId: record.contactId,
+      part: `${part}/${parts}`
+    });
+    
+    return record;
+  }
+  
+  // 🚚 Entregar mensagem pelo canal de origem - erros são relançados para o retry da fila
+  private async deliver(job: QueueJob<OutboundMessageJob>): Promise<void> {
+    const { outboxId, requestId, message, text } = job.data;
+    const attempt = job.attempts + 1;
+    
+    try {
+      const adapter = ChannelFactory.get(message.channel);
+      if (!adapter?.sendText) {
+        throw new Error(`Canal sem suporte a envio de mensagens: ${message.channel}`);
+      }
+      
+      this.logger.info('Enviando resposta ao contato', {
+        requestId,
+        outboxId,
+        channel: message.channel,
+        contactNumber: message.contactNumber,
+        responseLength: text.length,
+        attempt
+      });
+      
+      const result = await adapter.sendText(message, text);
+      
+      await this.updateRecord(outboxId, record => ({
+        ...record,
+        status: 'sent',
+        attempts: attempt,
+        sentAt: new Date().toISOString(),
+        providerMessageId: result?.messageId
+      }));
+    } catch (error) {
+      await this.updateRecord(outboxId, record => ({
+        ...record,
+        attempts: attempt,
+        lastError: error instanceof Error ? error.message : String(error)
+      })).catch(() => undefined);
+      throw error;
+    }
+  }
+  
+  // ☠️ Envio esgotou as tentativas
+  private async markFailed(job: QueueJob<OutboundMessageJob>, error: Error): Promise<void> {
+    const { outboxId, requestId, message } = job.data;
+    
+    this.logger.error('❌ Mensagem de saída não entregue', error, {
+      requestId,
+      outboxId,
+      channel: message.channel,
+      userId: message.contactId
+    });
+    
+    await this.updateRecord(outboxId, record => ({
+      ...record,
+      status: 'failed',
+      failedAt: job.failedAt || new Date().toISOString(),
+      lastError: error.message
+    }));
+  }
+  
+  // 💾 Persistir registro (renova a retenção)
+  private async saveRecord(record: OutboxMessage): Promise<void> {
+    record.updatedAt = new Date().toISOString();
+    await this.redis.set(this.recordKey(record.id), JSON.stringify(record), 'EX', config.outbox.retention);
+  }
+  
+  // ✏️ Atualizar registro existente (ignorado se já expirou)
+  private async updateRecord(id: string, change: (record: OutboxMessage) => OutboxMessage): Promise<void> {
+    const record = await this.getMessage(id);
+    
+    if (!record) {
+      this.logger.warn('Registro da outbox não encontrado', { outboxId: id });
+      return;
+    }
+    
+    await this.saveRecord(change(record));
+  }
+  
+  // 🔍 Obter mensagem da outbox
+  async getMessage(id: string): Promise<OutboxMessage | null> {
+    const raw = await this.redis.get(this.recordKey(id));
+    return raw ? JSON.parse(raw) : null;
+  }
+  
+  // 🔁 Texto foi enviado pela outbox ao contato há pouco? (eco do webhook com fromMe)
+  async wasRecentlySent(contactId: string, text: string, windowSeconds = 600): Promise<boolean> {
+    const since = Date.now() - windowSeconds * 1000;
+    const ids = await this.redis.zrangebyscore(this.contactKey(contactId), since, '+inf');
+    
+    if (ids.length === 0) {
+      return false;
+    }
+    
+    const normalized = text.trim();
+    const raws = await this.redis.mget(...ids.map(id => this.recordKey(id)));
+    return raws.some(raw => raw && (JSON.parse(raw) as OutboxMessage).text.trim() === normalized);
+  }
+  
+  // 📋 Mensagens de um contato (mais recentes primeiro)
+  async listByContact(contactId: string, offset = 0, limit = 50): Promise<{ total: number; messages: OutboxMessage[] }> {
+    const key = this.contactKey(contactId);
+    const [total, ids] = await Promise.all([
+      this.redis.zcard(key),
+      this.redis.zrevrange(key, offset, offset + limit - 1)
+    ]);
+    
+    if (ids.length === 0) {
+      return { total, messages: [] };
+    }
+    
+    const raws = await this.redis.mget(...ids.map(id => this.recordKey(id)));
+    return {
+      total,
+      messages: raws.filter(Boolean).map(raw => JSON.parse(raw))
+    };
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const outboxService = new OutboxService();
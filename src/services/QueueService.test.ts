@@ -0,0 +1,160 @@
+import { after, afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import RedisMock from 'ioredis-mock';
+import { config } from '../config';
+import { cacheService } from './CacheService';
+import { QueueService } from './QueueService';
+
+// 🧪 Scripts Lua da fila contra um Redis em memória
+// reserve/finish/promote são os passos do worker, chamados aqui um a um (sem workerLoop)
+describe('QueueService', () => {
+  const redis = cacheService.getClient();
+  let now: number;
+  let queue: QueueService<{ text: string }>;
+
+  const reserveText = async (): Promise<string | null> => {
+    const job = await queue['reserve']();
+    return job ? job.data.text : null;
+  };
+
+  beforeEach(async () => {
+    cacheService.setClient(new RedisMock());
+    await cacheService.getClient().flushall();
+
+    now = Date.parse('2026-01-05T12:00:00Z');
+    mock.method(Date, 'now', () => now);
+
+    queue = new QueueService('test');
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => {
+    cacheService.setClient(redis);
+  });
+
+  describe('grupos', () => {
+    test('processa os jobs de um grupo um por vez, em ordem', async () => {
+      const first = await queue.enqueue({ text: 'a1' }, { groupId: 'a' });
+      await queue.enqueue({ text: 'a2' }, { groupId: 'a' });
+      await queue.enqueue({ text: 'b1' }, { groupId: 'b' });
+
+      assert.equal(await reserveText(), 'a1');
+      assert.equal(await reserveText(), 'b1');
+      // a2 só fica disponível quando a1 terminar
+      assert.equal(await reserveText(), null);
+
+      await queue['finish'](first, false);
+
+      assert.equal(await reserveText(), 'a2');
+    });
+
+    test('libera o próximo do grupo também quando o job vai para a dead-letter', async () => {
+      const first = await queue.enqueue({ text: 'a1' }, { groupId: 'a' });
+      await queue.enqueue({ text: 'a2' }, { groupId: 'a' });
+
+      await queue['reserve']();
+      await queue['finish'](first, true);
+
+      assert.equal(await reserveText(), 'a2');
+      assert.equal((await queue.getStats()).dead, 1);
+    });
+
+    test('o próximo do grupo com runAt no futuro espera em "delayed"', async () => {
+      const first = await queue.enqueue({ text: 'a1' }, { groupId: 'a' });
+      await queue.enqueue({ text: 'a2' }, { groupId: 'a', delay: 5000 });
+
+      await queue['reserve']();
+      await queue['finish'](first, false);
+
+      assert.equal(await reserveText(), null);
+      assert.equal((await queue.getStats()).delayed, 1);
+
+      now += 5000;
+      assert.equal(await queue['promote'](), 1);
+      assert.equal(await reserveText(), 'a2');
+    });
+
+    test('job do grupo sem dados é descartado e libera o próximo', async () => {
+      const first = await queue.enqueue({ text: 'a1' }, { groupId: 'a' });
+      await queue.enqueue({ text: 'a2' }, { groupId: 'a' });
+
+      await cacheService.getClient().hdel(cacheService.buildKey('test:jobs', 'queue'), first.id);
+
+      assert.equal(await reserveText(), null);
+      assert.equal(await reserveText(), 'a2');
+    });
+  });
+
+  describe('agendamento', () => {
+    test('promove o job agendado só depois do runAt', async () => {
+      await queue.enqueue({ text: 'later' }, { delay: 10000 });
+
+      assert.equal(await reserveText(), null);
+
+      now += 9999;
+      assert.equal(await queue['promote'](), 0);
+
+      now += 1;
+      assert.equal(await queue['promote'](), 1);
+      assert.equal(await reserveText(), 'later');
+    });
+
+    test('devolve para a fila o job com lease expirado', async () => {
+      await queue.enqueue({ text: 'stuck' });
+      await queue['reserve']();
+
+      now += config.queue.leaseTime - 1;
+      assert.equal(await queue['promote'](), 0);
+
+      now += 1;
+      assert.equal(await queue['promote'](), 1);
+      assert.equal(await reserveText(), 'stuck');
+    });
+  });
+
+  describe('remove', () => {
+    test('cancela jobs aguardando ou agendados', async () => {
+      const waiting = await queue.enqueue({ text: 'waiting' });
+      const delayed = await queue.enqueue({ text: 'delayed' }, { delay: 1000 });
+
+      assert.equal(await queue.remove(waiting.id), true);
+      assert.equal(await queue.remove(delayed.id), true);
+      assert.equal(await queue.remove(waiting.id), false);
+
+      assert.deepEqual(await queue.getStats(), { queue: 'test', waiting: 0, active: 0, delayed: 0, dead: 0 });
+    });
+
+    test('remover o primeiro do grupo libera o próximo', async () => {
+      const first = await queue.enqueue({ text: 'a1' }, { groupId: 'a' });
+      await queue.enqueue({ text: 'a2' }, { groupId: 'a' });
+
+      assert.equal(await queue.remove(first.id), true);
+      assert.equal(await reserveText(), 'a2');
+    });
+
+    test('remover um job do meio do grupo mantém a ordem dos demais', async () => {
+      const first = await queue.enqueue({ text: 'a1' }, { groupId: 'a' });
+      const second = await queue.enqueue({ text: 'a2' }, { groupId: 'a' });
+      await queue.enqueue({ text: 'a3' }, { groupId: 'a' });
+
+      assert.equal(await queue.remove(second.id), true);
+      assert.equal(await reserveText(), 'a1');
+      assert.equal(await reserveText(), null);
+
+      await queue['finish'](first, false);
+
+      assert.equal(await reserveText(), 'a3');
+    });
+
+    test('não interrompe job em execução', async () => {
+      const job = await queue.enqueue({ text: 'running' });
+      await queue['reserve']();
+
+      assert.equal(await queue.remove(job.id), false);
+      assert.equal((await queue.getStats()).active, 1);
+    });
+  });
+});
@@ -0,0 +1,507 @@
+import { randomUUID } from 'crypto';
+import type Redis from 'ioredis';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService } from './CacheService';
+import type { QueueJob, QueueJobOptions, QueueStats } from '../types';
+
+// 📜 Scripts Lua - operações atômicas para várias instâncias compartilharem a fila
+
+// Move o próximo job de "waiting" para "active" com prazo de lease
+const RESERVE_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if not id then return nil end
+redis.call('ZADD', KEYS[2], ARGV[1], id)
+return {id, redis.call('HGET', KEYS[3], id)}
+`;
+
+// Devolve para "waiting" os jobs agendados vencidos e os leases expirados (worker morreu)
+const PROMOTE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local moved = 0
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', now, 'LIMIT', 0, 100)
+for _, id in ipairs(due) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('LPUSH', KEYS[3], id)
+  moved = moved + 1
+end
+local stale = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', now, 'LIMIT', 0, 100)
+for _, id in ipairs(stale) do
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('RPUSH', KEYS[3], id)
+  moved = moved + 1
+end
+return moved
+`;
+
+// Libera o primeiro job da fila do grupo: agendado se o runAt ainda não chegou
+const RELEASE_NEXT = `
+local function releaseNext(groupKey, jobsKey, waitingKey, delayedKey, now)
+  local nextId = redis.call('LINDEX', groupKey, 0)
+  if not nextId then return nil end
+  local raw = redis.call('HGET', jobsKey, nextId)
+  local runAt = 0
+  if raw then runAt = tonumber(string.match(raw, '"runAt":(%d+)')) or 0 end
+  if runAt > tonumber(now) then
+    redis.call('ZADD', delayedKey, runAt, nextId)
+  else
+    redis.call('LPUSH', waitingKey, nextId)
+  end
+  return nextId
+end
+`;
+
+// Enfileira job de um grupo: só o primeiro da fila do grupo fica disponível aos workers
+const ENQUEUE_GROUPED_SCRIPT = `
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+redis.call('HSET', KEYS[5], ARGV[1], ARGV[4])
+if redis.call('RPUSH', KEYS[4], ARGV[1]) > 1 then return 0 end
+if tonumber(ARGV[3]) > 0 then
+  redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+else
+  redis.call('LPUSH', KEYS[2], ARGV[1])
+end
+return 1
+`;
+
+// Finaliza o job (concluído ou morto) e libera o próximo do grupo (respeitando runAt)
+const FINISH_SCRIPT = RELEASE_NEXT + `
+redis.call('ZREM', KEYS[1], ARGV[1])
+if ARGV[3] == '' then
+  redis.call('HDEL', KEYS[2], ARGV[1])
+else
+  redis.call('HSET', KEYS[2], ARGV[1], ARGV[3])
+  redis.call('LPUSH', KEYS[3], ARGV[1])
+end
+if ARGV[4] ~= '1' then return nil end
+redis.call('HDEL', KEYS[7], ARGV[1])
+redis.call('LREM', KEYS[4], 1, ARGV[1])
+return releaseNext(KEYS[4], KEYS[2], KEYS[5], KEYS[6], ARGV[2])
+`;
+
+// Recoloca um job da dead-letter na fila (no fim do grupo, se houver)
+const REQUEUE_SCRIPT = `
+local removed = redis.call('LREM', KEYS[1], 0, ARGV[1])
+if removed == 0 then return 0 end
+redis.call('HSET', KEYS[2], ARGV[1], ARGV[2])
+if ARGV[3] == '1' then
+  redis.call('HSET', KEYS[5], ARGV[1], ARGV[4])
+  if redis.call('RPUSH', KEYS[4], ARGV[1]) > 1 then return 1 end
+end
+redis.call('LPUSH', KEYS[3], ARGV[1])
+return 1
+`;
+
+// Remove um job que ainda não começou; em execução ele não é interrompido
+// No grupo, só o primeiro fica em waiting/delayed - removido ele, o próximo é liberado
+const REMOVE_SCRIPT = RELEASE_NEXT + `
+if redis.call('ZSCORE', KEYS[3], ARGV[1]) then return 0 end
+local released = redis.call('LREM', KEYS[1], 0, ARGV[1]) + redis.call('ZREM', KEYS[2], ARGV[1])
+local grouped = redis.call('LREM', KEYS[5], 0, ARGV[1])
+if released + grouped == 0 then return 0 end
+redis.call('HDEL', KEYS[4], ARGV[1])
+redis.call('HDEL', KEYS[6], ARGV[1])
+if released > 0 and grouped > 0 then releaseNext(KEYS[5], KEYS[4], KEYS[1], KEYS[2], ARGV[2]) end
+return 1
+`;
+
+// O handler pode pedir para adiar o job (sem contar como tentativa) retornando { delay }
+export type QueueHandler<T> = (job: QueueJob<T>) => Promise<void | { delay: number }>;
+
+export interface QueueProcessOptions<T> {
+  concurrency?: number;
+  // Chamado quando o job esgota as tentativas e vai para a dead-letter
+  onDead?: (job: QueueJob<T>, error: Error) => Promise<void>;
+}
+
+// 📬 Fila durável sobre o Redis do CacheService (retry com backoff + dead-letter)
+export class QueueService<T = any> {
+  private static queues = new Map<string, QueueService>();
+  
+  private logger = createLogger({ service: 'queue' });
+  private running = false;
+  private workers: Promise<void>[] = [];
+  private promoteTimer?: NodeJS.Timeout;
+  
+  constructor(readonly name: string) {
+    QueueService.queues.set(name, this);
+  }
+  
+  // 📋 Filas registradas (usado pelas rotas de administração)
+  static get(name: string): QueueService | undefined {
+    return this.queues.get(name);
+  }
+  
+  static list(): QueueService[] {
+    return Array.from(this.queues.values());
+  }
+  
+  private get redis(): Redis {
+    return cacheService.getClient();
+  }
+  
+  private key(suffix: 'jobs' | 'waiting' | 'active' | 'delayed' | 'dead' | 'groups'): string {
+    return cacheService.buildKey(`${this.name}:${suffix}`, 'queue');
+  }
+  
+  // 👥 Fila FIFO de um grupo (ex: um contato) - processamento estritamente em ordem
+  private groupKey(groupId: string): string {
+    return cacheService.buildKey(`${this.name}:group:${groupId}`, 'queue');
+  }
+  
+  // ➕ Enfileirar job (lança erro se o Redis estiver indisponível)
+  async enqueue(data: T, options: QueueJobOptions = {}): Promise<QueueJob<T>> {
+    const runAt = options.delay && options.delay > 0 ? Date.now() + options.delay : undefined;
+    const job: QueueJob<T> = {
+      id: options.jobId || randomUUID(),
+      queue: this.name,
+      data,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || config.queue.maxAttempts,
+      createdAt: new Date().toISOString(),
+      groupId: options.groupId,
+      runAt
+    };
+    
+    if (job.groupId) {
+      await this.redis.eval(
+        ENQUEUE_GROUPED_SCRIPT, 5,
+        this.key('jobs'), this.key('waiting'), this.key('delayed'), this.groupKey(job.groupId), this.key('groups'),
+        job.id, JSON.stringify(job), runAt || 0, job.groupId
+      );
+    } else {
+      const multi = this.redis.multi().hset(this.key('jobs'), job.id, JSON.stringify(job));
+      
+      if (runAt) {
+        multi.zadd(this.key('delayed'), runAt, job.id);
+      } else {
+        multi.lpush(this.key('waiting'), job.id);
+      }
+      
+      await multi.exec();
+    }
+    
+    this.logger.debug(`Job enfileirado: ${job.id}`, {
+      queue: this.name,
+      jobId: job.id,
+      groupId: job.groupId,
+      delay: options.delay
+    });
+    
+    return job;
+  }
+  
+  // 🗑️ Cancelar um job agendado ou aguardando (false = não encontrado ou já em execução)
+  async remove(jobId: string): Promise<boolean> {
+    const groupId = await this.redis.hget(this.key('groups'), jobId);
+    const removed = await this.redis.eval(
+      REMOVE_SCRIPT, 6,
+      this.key('waiting'), this.key('delayed'), this.key('active'), this.key('jobs'),
+      this.groupKey(groupId || '_'), this.key('groups'),
+      jobId, Date.now()
+    ) as number;
+    
+    if (removed > 0) {
+      this.logger.debug(`Job cancelado: ${jobId}`, { queue: this.name, jobId });
+    }
+    
+    return removed > 0;
+  }
+  
+  // 🏁 Finalizar job: remove (concluído) ou move para dead-letter, liberando o grupo
+  private async finish(job: Pick<QueueJob<T>, 'id' | 'groupId'>, dead: boolean): Promise<void> {
+    await this.redis.eval(
+      FINISH_SCRIPT, 7,
+      this.key('active'), this.key('jobs'), this.key('dead'),
+      this.groupKey(job.groupId || '_'), this.key('waiting'), this.key('delayed'), this.key('groups'),
+      job.id, Date.now(), dead ? JSON.stringify(job) : '', job.groupId ? '1' : '0'
+    );
+  }
+  
+  // ▶️ Iniciar workers
+  process(handler: QueueHandler<T>, options: QueueProcessOptions<T> = {}): void {
+    if (this.running) {
+      return;
+    }
+    
+    this.running = true;
+    const concurrency = options.concurrency || config.queue.concurrency;
+    
+    for (let i = 0; i < concurrency; i++) {
+      this.workers.push(this.workerLoop(handler, options));
+    }
+    
+    this.promoteTimer = setInterval(() => {
+      this.promote().catch(error => this.logger.error('Erro ao promover jobs agendados', error, { queue: this.name }));
+    }, config.queue.pollInterval);
+    
+    this.logger.info(`🚀 ${concurrency} workers iniciados`, { queue: this.name });
+  }
+  
+  // ⏹️ Parar workers aguardando os jobs em andamento
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    
+    this.running = false;
+    clearInterval(this.promoteTimer);
+    
+    await Promise.all(this.workers);
+    this.workers = [];
+    
+    this.logger.info('Workers finalizados', { queue: this.name });
+  }
+  
+  // 🔁 Loop de um worker
+  private async workerLoop(handler: QueueHandler<T>, options: QueueProcessOptions<T>): Promise<void> {
+    while (this.running) {
+      let job: QueueJob<T> | null = null;
+      
+      try {
+        job = await this.reserve();
+      } catch (error) {
+        this.logger.debug('Falha ao reservar job', { queue: this.name, error: error instanceof Error ? error.message : String(error) });
+      }
+      
+      if (!job) {
+        await this.sleep(config.queue.pollInterval);
+        continue;
+      }
+      
+      await this.runJob(job, handler, options);
+    }
+  }
+  
+  // 🔒 Reservar próximo job
+  private async reserve(): Promise<QueueJob<T> | null> {
+    const leaseUntil = Date.now() + config.queue.leaseTime;
+    const result = await this.redis.eval(
+      RESERVE_SCRIPT, 3,
+      this.key('waiting'), this.key('active'), this.key('jobs'),
+      leaseUntil
+    ) as [string, string | null] | null;
+    
+    if (!result) {
+      return null;
+    }
+    
+    const [id, raw] = result;
+    
+    if (!raw) {
+      // Job sem dados (removido manualmente) - descartar, liberando o próximo do grupo
+      const groupId = await this.redis.hget(this.key('groups'), id);
+      await this.finish({ id, groupId: groupId || undefined }, false);
+      return null;
+    }
+    
+    return JSON.parse(raw);
+  }
+  
+  // ⚡ Executar job com renovação de lease
+  private async runJob(job: QueueJob<T>, handler: QueueHandler<T>, options: QueueProcessOptions<T>): Promise<void> {
+    const startTime = Date.now();
+    const heartbeat = setInterval(() => {
+      this.redis.zadd(this.key('active'), 'XX', Date.now() + config.queue.leaseTime, job.id)
+        .catch(() => undefined);
+    }, Math.max(config.queue.leaseTime / 3, 1000));
+    
+    let result: void | { delay: number };
+    
+    try {
+      result = await handler(job);
+    } catch (error) {
+      clearInterval(heartbeat);
+      await this.fail(job, error instanceof Error ? error : new Error(String(error)), options);
+      return;
+    }
+    
+    clearInterval(heartbeat);
+    
+    if (result && result.delay > 0) {
+      await this.defer(job, result.delay);
+      return;
+    }
+    
+    try {
+      await this.finish(job, false);
+      this.logger.debug(`Job concluído: ${job.id}`, { queue: this.name, jobId: job.id, duration: Date.now() - startTime });
+    } catch (error) {
+      // Lease expira e o job volta para a fila (entrega at-least-once)
+      this.logger.error('Erro ao finalizar job concluído', error, { queue: this.name, jobId: job.id });
+    }
+  }
+  
+  // 💾 Persistir alterações nos dados de um job em andamento (sobrevivem a retry/restart)
+  async update(job: QueueJob<T>): Promise<void> {
+    await this.redis.hset(this.key('jobs'), job.id, JSON.stringify(job));
+  }
+  
+  // ⏸️ Adiar job sem consumir tentativa (continua à frente do seu grupo)
+  private async defer(job: QueueJob<T>, delay: number): Promise<void> {
+    job.runAt = Date.now() + delay;
+    
+    try {
+      await this.redis.multi()
+        .zrem(this.key('active'), job.id)
+        .hset(this.key('jobs'), job.id, JSON.stringify(job))
+        .zadd(this.key('delayed'), job.runAt, job.id)
+        .exec();
+      
+      this.logger.debug(`Job adiado em ${delay}ms`, { queue: this.name, jobId: job.id });
+    } catch (error) {
+      this.logger.error('Erro ao adiar job', error, { queue: this.name, jobId: job.id });
+    }
+  }
+  
+  // ❌ Registrar falha: agendar nova tentativa ou mover para dead-letter
+  private async fail(job: QueueJob<T>, error: Error, options: QueueProcessOptions<T>): Promise<void> {
+    job.attempts += 1;
+    job.lastError = error.message;
+    
+    try {
+      if (job.attempts < job.maxAttempts) {
+        const delay = this.backoff(job.attempts);
+        
+        await this.redis.multi()
+          .zrem(this.key('active'), job.id)
+          .hset(this.key('jobs'), job.id, JSON.stringify(job))
+          .zadd(this.key('delayed'), Date.now() + delay, job.id)
+          .exec();
+        
+        this.logger.warn(`Job falhou, nova tentativa em ${delay}ms`, {
+          queue: this.name,
+          jobId: job.id,
+          attempt: job.attempts,
+          errorMessage: error.message
+        });
+        return;
+      }
+      
+      job.failedAt = new Date().toISOString();
+      
+      // Job morto libera o grupo para não travar as próximas mensagens do contato
+      await this.finish(job, true);
+      
+      this.logger.error(`Job movido para dead-letter após ${job.attempts} tentativas`, error, {
+        queue: this.name,
+        jobId: job.id
+      });
+      
+      if (options.onDead) {
+        await options.onDead(job, error);
+      }
+    
+    } catch (failError) {
+      // Lease expira e o job volta para a fila pelo promote()
+      this.logger.error('Erro ao registrar falha do job', failError, { queue: this.name, jobId: job.id });
+    }
+  }
+  
+  // ⏱️ Backoff exponencial com jitter
+  private backoff(attempt: number): number {
+    const delay = config.queue.backoffBase * Math.pow(2, attempt - 1);
+    const jitter = Math.random() * config.queue.backoffBase;
+    return Math.round(Math.min(delay + jitter, config.queue.backoffMax));
+  }
+  
+  // ⏰ Promover jobs agendados e recuperar leases expirados
+  private async promote(): Promise<number> {
+    const moved = await this.redis.eval(
+      PROMOTE_SCRIPT, 3,
+      this.key('delayed'), this.key('active'), this.key('waiting'),
+      Date.now()
+    ) as number;
+    
+    if (moved > 0) {
+      this.logger.debug(`${moved} jobs devolvidos para a fila`, { queue: this.name });
+    }
+    
+    return moved;
+  }
+  
+  // ☠️ Listar jobs da dead-letter
+  async listDead(offset = 0, limit = 50): Promise<QueueJob<T>[]> {
+    const ids = await this.redis.lrange(this.key('dead'), offset, offset + limit - 1);
+    
+    if (ids.length === 0) {
+      return [];
+    }
+    
+    const raws = await this.redis.hmget(this.key('jobs'), ...ids);
+    return raws.filter(Boolean).map(raw => JSON.parse(raw));
+  }
+  
+  // 🔄 Recolocar um job da dead-letter na fila (zera as tentativas)
+  async requeueDead(jobId: string): Promise<boolean> {
+    const raw = await this.redis.hget(this.key('jobs'), jobId);
+    
+    if (!raw) {
+      return false;
+    }
+    
+    const job: QueueJob<T> = JSON.parse(raw);
+    job.attempts = 0;
+    delete job.failedAt;
+    delete job.runAt;
+    
+    const requeued = await this.redis.eval(
+      REQUEUE_SCRIPT, 5,
+      this.key('dead'), this.key('jobs'), this.key('waiting'), this.groupKey(job.groupId || '_'), this.key('groups'),
+      jobId, JSON.stringify(job), job.groupId ? '1' : '0', job.groupId || ''
+    ) as number;
+    
+    if (requeued === 1) {
+      this.logger.info(`Job recolocado na fila: ${jobId}`, { queue: this.name, jobId });
+    }
+    
+    return requeued === 1;
+  }
+  
+  // 🔄 Recolocar todos os jobs da dead-letter
+  async requeueAllDead(): Promise<number> {
+    const ids = await this.redis.lrange(this.key('dead'), 0, -1);
+    let count = 0;
+    
+    for (const id of ids) {
+      if (await this.requeueDead(id)) {
+        count++;
+      }
+    }
+    
+    return count;
+  }
+  
+  // 🗑️ Remover definitivamente um job da dead-letter
+  async removeDead(jobId: string): Promise<boolean> {
+    const [[, removed]] = await this.redis.multi()
+      .lrem(this.key('dead'), 0, jobId)
+      .hdel(this.key('jobs'), jobId)
+      .exec();
+    
+    return (removed as number) > 0;
+  }
+  
+  // 📊 Estatísticas da fila
+  async getStats(): Promise<QueueStats> {
+    const [[, waiting], [, active], [, delayed], [, dead]] = await this.redis.multi()
+      .llen(this.key('waiting'))
+      .zcard(this.key('active'))
+      .zcard(this.key('delayed'))
+      .llen(this.key('dead'))
+      .exec();
+    
+    return {
+      queue: this.name,
+      waiting: waiting as number,
+      active: active as number,
+      delayed: delayed as number,
+      dead: dead as number
+    };
+  }
+  
+  // 😴 Utility para sleep
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
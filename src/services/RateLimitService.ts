@@ -0,0 +1,184 @@
+import type Redis from 'ioredis';
+import type { RequestHandler } from 'express';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService, CacheKeys, CacheStrategies } from './CacheService';
+import type { BlockedContact, InboundMessage, RateLimitInfo } from '../types';
+
+// 📜 Janela deslizante (ZSET de timestamps): registra a ocorrência só se houver vaga
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local resetAt = now + window
+if oldest[2] then resetAt = tonumber(oldest[2]) + window end
+return {allowed, count, resetAt}
+`;
+
+// 🛡️ Proteção contra abuso: limite de mensagens por contato, limite HTTP por IP e bloqueio de números
+// As janelas ficam no Redis e valem para todas as instâncias; sem Redis os limites não são aplicados
+export class RateLimitService {
+  private logger = createLogger({ service: 'rate-limit' });
+  
+  private get redis(): Redis {
+    return cacheService.getClient();
+  }
+  
+  // ⏱️ Registrar uma ocorrência na janela deslizante - allowed = false quando o limite foi atingido
+  async hit(identifier: string, limit: number, windowMs: number): Promise<RateLimitInfo> {
+    const key = cacheService.buildKey(CacheKeys.rateLimit(identifier), CacheStrategies.rateLimit.prefix);
+    const now = Date.now();
+    
+    const [allowed, count, resetTime] = await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT, 1,
+      key,
+      now, windowMs, limit, `${now}:${Math.random().toString(36).substr(2, 9)}`
+    ) as [number, number, number];
+    
+    return {
+      allowed: allowed === 1,
+      remaining: Math.max(limit - count, 0),
+      resetTime,
+      limit
+    };
+  }
+  
+  // 📱 Limite de mensagens do contato (RATE_LIMIT_MAX por RATE_LIMIT_WINDOW)
+  // notify = true apenas para a primeira mensagem barrada na janela (um único aviso ao cliente)
+  async checkContact(contactId: string): Promise<RateLimitInfo & { notify: boolean }> {
+    const { rateLimitMax, rateLimitWindow } = config.security;
+    const unlimited = { allowed: true, remaining: rateLimitMax, resetTime: Date.now() + rateLimitWindow, limit: rateLimitMax, notify: false };
+    
+    if (rateLimitMax <= 0) {
+      return unlimited;
+    }
+    
+    try {
+      const info = await this.hit(`contact:${contactId}`, rateLimitMax, rateLimitWindow);
+      if (info.allowed) {
+        return { ...info, notify: false };
+      }
+      
+      const notify = await cacheService.setIfNotExists(
+        CacheKeys.rateLimit(`notice:${contactId}`),
+        { limitedAt: new Date().toISOString() },
+        { ...CacheStrategies.rateLimit, ttl: Math.ceil(rateLimitWindow / 1000) }
+      );
+      
+      this.logger.warn('🚫 Contato excedeu o limite de mensagens', {
+        userId: contactId,
+        limit: info.limit,
+        resetTime: new Date(info.resetTime).toISOString(),
+        notify
+      });
+      
+      return { ...info, notify };
+    } catch (error) {
+      // Sem Redis não há como contar - a fila também falha e o webhook responde 503
+      this.logger.error('Erro ao verificar limite de mensagens do contato', error, { userId: contactId });
+      return unlimited;
+    }
+  }
+  
+  // 🌐 Middleware Express: limite de requisições por IP (HTTP_RATE_LIMIT_MAX por HTTP_RATE_LIMIT_WINDOW)
+  // Caminhos em skip (e seus subcaminhos) não são limitados
+  httpMiddleware(options: { skip?: string[] } = {}): RequestHandler {
+    return async (req, res, next) => {
+      const { httpRateLimitMax, httpRateLimitWindow } = config.security;
+      const skipped = options.skip?.some(path => req.path === path || req.path.startsWith(`${path}/`));
+      
+      if (httpRateLimitMax <= 0 || skipped) {
+        return next();
+      }
+      
+      try {
+        const info = await this.hit(`http:${req.ip}`, httpRateLimitMax, httpRateLimitWindow);
+        
+        res.setHeader('X-RateLimit-Limit', info.limit);
+        res.setHeader('X-RateLimit-Remaining', info.remaining);
+        res.setHeader('X-RateLimit-Reset', Math.ceil(info.resetTime / 1000));
+        
+        if (!info.allowed) {
+          const retryAfter = Math.max(Math.ceil((info.resetTime - Date.now()) / 1000), 1);
+          res.setHeader('Retry-After', retryAfter);
+          
+          this.logger.warn('Requisição barrada pelo limite HTTP', {
+            requestId: req.requestId,
+            ip: req.ip,
+            method: req.method,
+            path: req.path
+          });
+          
+          res.status(429).json({ error: 'Too many requests', retryAfter });
+          return;
+        }
+      } catch (error) {
+        // Sem Redis o limite não é aplicado (a própria requisição decide se pode seguir)
+        this.logger.debug('Limite HTTP não verificado (Redis indisponível)', { requestId: req.requestId });
+      }
+      
+      next();
+    };
+  }
+  
+  // 🚫 Bloquear contato (duration em segundos)
+  async block(contactId: string, reason: string, duration = config.security.blockDuration): Promise<BlockedContact> {
+    const now = Date.now();
+    const entry: BlockedContact = {
+      contactId,
+      reason,
+      blockedAt: new Date(now).toISOString(),
+      until: new Date(now + duration * 1000).toISOString()
+    };
+    
+    await cacheService.set(CacheKeys.blocked(contactId), entry, { ...CacheStrategies.blocked, ttl: duration });
+    
+    this.logger.warn('🚫 Contato bloqueado', { userId: contactId, reason, duration });
+    return entry;
+  }
+  
+  // ✅ Remover bloqueio do contato
+  async unblock(contactId: string): Promise<boolean> {
+    const removed = await cacheService.del(CacheKeys.blocked(contactId), CacheStrategies.blocked);
+    
+    if (removed) {
+      this.logger.info('✅ Contato desbloqueado', { userId: contactId });
+    }
+    
+    return removed;
+  }
+  
+  // 🔍 Bloqueio feito pelo admin (null = sem bloqueio ativo)
+  async getBlock(contactId: string): Promise<BlockedContact | null> {
+    const { value } = await cacheService.get<BlockedContact>(CacheKeys.blocked(contactId), CacheStrategies.blocked);
+    return value;
+  }
+  
+  // 📵 Número listado em BLOCKED_NUMBERS
+  isNumberBlocked(contactNumber?: string): boolean {
+    const number = (contactNumber || '').replace(/\D/g, '');
+    return !!number && config.security.blockedNumbers.includes(number);
+  }
+  
+  // 🚫 Contato bloqueado (BLOCKED_NUMBERS ou bloqueio pelo admin)?
+  async isBlocked(message: InboundMessage): Promise<boolean> {
+    if (this.isNumberBlocked(message.contactNumber)) {
+      return true;
+    }
+    
+    return await cacheService.exists(CacheKeys.blocked(message.contactId), CacheStrategies.blocked);
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const rateLimitService = new RateLimitService();
@@ -0,0 +1,201 @@
+import { readFileSync } from 'fs';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { schemas } from '../utils/validators';
+import { WHMCSService } from './WHMCSService';
+import { OpenAIAssistantService } from './OpenAIAssistantService';
+import { WhaticketClient, whaticketClient } from './WhaticketClient';
+import { ProviderFactory } from '../factories/ProviderFactory';
+import type { LLMProvider, TenantConfig } from '../types';
+
+// Tenant das credenciais do .env
+export const DEFAULT_TENANT_ID = 'default';
+
+// Integrações já criadas para o tenant (reaproveitadas entre mensagens)
+interface TenantClients {
+  whmcs?: WHMCSService;
+  assistant?: LLMProvider;
+  assistantsApi?: OpenAIAssistantService;
+  whaticket?: WhaticketClient;
+}
+
+// 🏢 Registro de tenants (revendas atendidas pela mesma instalação)
+// Cada tenant tem WHMCS, assistant, Whaticket e marca próprios e é resolvido pelo companyId do
+// Whaticket ou pela rota /webhook/:channel/:tenant. O tenant "default" usa as credenciais do .env.
+// Contatos dos demais tenants recebem o prefixo "<tenant>:" no contactId, isolando thread, handoff,
+// pausa, outbox e limites; o cache do WHMCS é isolado por CacheKeys.tenant
+export class TenantService {
+  private logger = createLogger({ service: 'tenants' });
+  private tenants = new Map<string, TenantConfig>();
+  private clients = new Map<string, TenantClients>();
+  private source = 'default';
+  
+  // Configuração inválida impede a inicialização: cair no tenant padrão misturaria as empresas
+  constructor() {
+    this.reload();
+  }
+  
+  // 🔄 Carregar tenants da configuração (lança erro se forem inválidos, mantendo os atuais)
+  reload(): { source: string; tenants: number } {
+    let raw: string | undefined;
+    let source = 'default';
+    
+    if (config.tenants.file) {
+      raw = readFileSync(config.tenants.file, 'utf8');
+      source = config.tenants.file;
+    } else if (config.tenants.json) {
+      raw = config.tenants.json;
+      source = 'TENANTS';
+    }
+    
+    const configured = raw ? schemas.tenants.parse(JSON.parse(raw)) as TenantConfig[] : [];
+    const tenants = new Map<string, TenantConfig>([[DEFAULT_TENANT_ID, this.buildDefaultTenant()]]);
+    
+    for (const tenant of configured) {
+      const shared = tenant.companyIds.find(companyId => config.tenants.defaultCompanyIds.includes(companyId));
+      if (shared !== undefined) {
+        throw new Error(`companyId ${shared} do tenant ${tenant.id} também está em DEFAULT_TENANT_COMPANY_IDS`);
+      }
+      
+      tenants.set(tenant.id, { ...tenant, branding: { name: tenant.name, ...tenant.branding } });
+    }
+    
+    this.tenants = tenants;
+    this.clients.clear();
+    this.source = source;
+    
+    this.logger.info(`🏢 ${tenants.size} tenant(s) carregado(s)`, { source, tenants: [...tenants.keys()].join(',') });
+    return { source, tenants: tenants.size };
+  }
+  
+  // Mais de uma empresa atendida pela instalação
+  get multiTenant(): boolean {
+    return this.tenants.size > 1;
+  }
+  
+  // 🔍 Tenant pelo ID (sem ID = tenant padrão)
+  get(tenantId?: string): TenantConfig | undefined {
+    return this.tenants.get(tenantId || DEFAULT_TENANT_ID);
+  }
+  
+  // 🔍 Tenant dono do companyId do Whaticket (null = nenhum tenant atende a empresa)
+  resolve(companyId?: number): TenantConfig | null {
+    if (companyId !== undefined && companyId !== null) {
+      const tenant = [...this.tenants.values()].find(candidate => candidate.companyIds.includes(Number(companyId)));
+      if (tenant) {
+        return tenant;
+      }
+    }
+    
+    // Instalação de uma empresa só: tudo é do tenant padrão
+    if (!this.multiTenant) {
+      return this.get();
+    }
+    
+    // Com vários tenants, empresa desconhecida não é atendida; sem companyId (ex: Cloud API) fica com o padrão
+    return companyId === undefined || companyId === null ? this.get() : null;
+  }
+  
+  // 🆔 contactId isolado por tenant (o tenant padrão mantém o formato whatsapp_<número>)
+  scopeContactId(tenantId: string | undefined, contactId: string): string {
+    return !tenantId || tenantId === DEFAULT_TENANT_ID ? contactId : `${tenantId}:${contactId}`;
+  }
+  
+  // 💼 WHMCS do tenant
+  getWHMCS(tenantId?: string): WHMCSService {
+    const { tenant, clients } = this.clientsFor(tenantId);
+    
+    if (!clients.whmcs) {
+      clients.whmcs = tenant.id === DEFAULT_TENANT_ID ? new WHMCSService() : new WHMCSService(tenant.whmcs, tenant.id);
+    }
+    
+    return clients.whmcs;
+  }
+  
+  // 🤖 Assistant do tenant (provedor de LLM de LLM_PROVIDER)
+  getAssistant(tenantId?: string): LLMProvider {
+    const { tenant, clients } = this.clientsFor(tenantId);
+    
+    if (!clients.assistant) {
+      clients.assistant = ProviderFactory.create(tenant.id === DEFAULT_TENANT_ID ? {} : tenant.openai);
+    }
+    
+    return clients.assistant;
+  }
+  
+  // 🛠️ Assistants API do tenant (gestão dos assistants, independente de LLM_PROVIDER)
+  getAssistantsApi(tenantId?: string): OpenAIAssistantService {
+    const { tenant, clients } = this.clientsFor(tenantId);
+    
+    if (!clients.assistantsApi) {
+      clients.assistantsApi = clients.assistant instanceof OpenAIAssistantService
+        ? clients.assistant
+        : tenant.id === DEFAULT_TENANT_ID ? new OpenAIAssistantService() : new OpenAIAssistantService(tenant.openai);
+    }
+    
+    return clients.assistantsApi;
+  }
+  
+  // 📱 Whaticket do tenant
+  getWhaticket(tenantId?: string): WhaticketClient {
+    const { tenant, clients } = this.clientsFor(tenantId);
+    
+    if (!clients.whaticket) {
+      clients.whaticket = tenant.id === DEFAULT_TENANT_ID ? whaticketClient : new WhaticketClient(tenant.whaticket);
+    }
+    
+    return clients.whaticket;
+  }
+  
+  // 📋 Tenants em uso (sem credenciais)
+  list(): { source: string; tenants: Record<string, any>[] } {
+    return {
+      source: this.source,
+      tenants: [...this.tenants.values()].map(tenant => ({
+        id: tenant.id,
+        name: tenant.name,
+        companyIds: tenant.companyIds,
+        assistantId: tenant.openai.assistantId,
+        whmcsUrl: tenant.whmcs.apiUrl,
+        whaticketUrl: tenant.whaticket.url,
+        handoffQueueId: tenant.handoffQueueId,
+        branding: tenant.branding
+      }))
+    };
+  }
+  
+  // Tenant removido em um reload não cai no padrão: a mensagem falha e vai para a dead-letter
+  private clientsFor(tenantId?: string): { tenant: TenantConfig; clients: TenantClients } {
+    const tenant = this.get(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant não encontrado: ${tenantId}`);
+    }
+    
+    if (!this.clients.has(tenant.id)) {
+      this.clients.set(tenant.id, {});
+    }
+    
+    return { tenant, clients: this.clients.get(tenant.id)! };
+  }
+  
+  // 🏠 Tenant das credenciais do .env
+  private buildDefaultTenant(): TenantConfig {
+    return {
+      id: DEFAULT_TENANT_ID,
+      name: config.branding.name,
+      companyIds: config.tenants.defaultCompanyIds,
+      whmcs: {
+        apiUrl: config.whmcs.apiUrl,
+        identifier: config.whmcs.identifier,
+        secret: config.whmcs.secret
+      },
+      openai: { assistantId: config.openai.assistantId },
+      whaticket: { ...config.whaticket },
+      handoffQueueId: config.handoff.queueId || undefined,
+      branding: { ...config.branding }
+    };
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const tenantService = new TenantService();
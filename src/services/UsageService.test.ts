@@ -0,0 +1,112 @@
+import { after, afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import RedisMock from 'ioredis-mock';
+import { config } from '../config';
+import { cacheService } from './CacheService';
+import { usageService } from './UsageService';
+import type { InboundMessage, TokenUsage } from '../types';
+
+// 🧪 Custo dos tokens e orçamento por contato
+describe('UsageService', () => {
+  const original = { ...config.usage };
+
+  const usage = (model: string, promptTokens: number, completionTokens: number): TokenUsage => ({
+    model,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens
+  });
+
+  beforeEach(() => {
+    config.usage.prices = {
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'gpt-4': { input: 30, output: 60 }
+    };
+  });
+
+  afterEach(() => {
+    Object.assign(config.usage, original);
+  });
+
+  describe('cost', () => {
+    test('preço por 1 milhão de tokens de entrada e de saída', () => {
+      assert.equal(usageService.cost(usage('gpt-4o', 1_000_000, 100_000)), 3.5);
+    });
+
+    test('vale para versões do modelo e usa o prefixo mais específico', () => {
+      assert.equal(usageService.cost(usage('gpt-4o-2024-08-06', 1_000_000, 0)), 2.5);
+      assert.equal(usageService.cost(usage('gpt-4o-mini-2024-07-18', 1_000_000, 0)), 0.15);
+      assert.equal(usageService.cost(usage('gpt-4-0613', 1_000_000, 0)), 30);
+    });
+
+    test('modelo fora da tabela não tem custo', () => {
+      // "gpt-4" não é prefixo de "gpt-4.1" - só vale seguido de "-"
+      assert.equal(usageService.cost(usage('gpt-4.1', 1_000_000, 1_000_000)), 0);
+      assert.equal(usageService.cost(usage('o3', 1_000_000, 1_000_000)), 0);
+    });
+  });
+
+  describe('checkBudget', () => {
+    const redis = cacheService.getClient();
+    const message = { contactId: 'whatsapp_5511999999999', tenantId: 'default' } as InboundMessage;
+
+    beforeEach(async () => {
+      cacheService.setClient(new RedisMock());
+      await cacheService.getClient().flushall();
+    });
+
+    after(() => {
+      cacheService.setClient(redis);
+    });
+
+    test('sem limites o atendimento fica liberado', async () => {
+      config.usage.dailyBudget = 0;
+      config.usage.monthlyBudget = 0;
+      await usageService.record(message, usage('gpt-4', 1_000_000, 0));
+
+      assert.equal((await usageService.checkBudget(message.contactId)).allowed, true);
+    });
+
+    test('bloqueia quando o gasto do dia chega ao limite', async () => {
+      config.usage.dailyBudget = 1;
+      config.usage.monthlyBudget = 0;
+
+      await usageService.record(message, usage('gpt-4o', 200_000, 0));
+      assert.equal((await usageService.checkBudget(message.contactId)).allowed, true);
+
+      await usageService.record(message, usage('gpt-4o', 200_000, 0));
+      const status = await usageService.checkBudget(message.contactId);
+
+      assert.equal(status.allowed, false);
+      assert.equal(status.exceeded, 'daily');
+      assert.deepEqual(status.spent, { daily: 1, monthly: 1 });
+    });
+
+    test('bloqueia pelo gasto do mês mesmo com o dia abaixo do limite', async () => {
+      config.usage.dailyBudget = 5;
+      config.usage.monthlyBudget = 20;
+
+      // Gasto de outros dias do mês
+      const month = usageService.currentMonth();
+      await cacheService.getClient().hset(usageService['totalsKey'](month, 'contact', message.contactId), 'cost', '19.5');
+
+      await usageService.record(message, usage('gpt-4o', 200_000, 0));
+      const status = await usageService.checkBudget(message.contactId);
+
+      assert.equal(status.allowed, false);
+      assert.equal(status.exceeded, 'monthly');
+      assert.deepEqual(status.spent, { daily: 0.5, monthly: 20 });
+    });
+
+    test('o orçamento é de cada contato', async () => {
+      config.usage.dailyBudget = 1;
+      config.usage.monthlyBudget = 0;
+
+      await usageService.record(message, usage('gpt-4', 100_000, 0));
+
+      assert.equal((await usageService.checkBudget(message.contactId)).allowed, false);
+      assert.equal((await usageService.checkBudget('whatsapp_5511888888888')).allowed, true);
+    });
+  });
+});
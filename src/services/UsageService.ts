@@ -0,0 +1,192 @@
+import type Redis from 'ioredis';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { cacheService } from './CacheService';
+import { DEFAULT_TENANT_ID } from './TenantService';
+import type {
+  InboundMessage,
+  TokenUsage,
+  UsageBudgetStatus,
+  UsageDimension,
+  UsageReport,
+  UsageTotals
+} from '../types';
+
+const DIMENSIONS: UsageDimension[] = ['contact', 'queue', 'tenant'];
+
+// Totais mensais ficam um ano (o orçamento mensal e o relatório do mês dependem deles)
+const MONTH_RETENTION = 400 * 86400;
+
+// 💰 Consumo de tokens e custo das respostas do assistant
+// Cada resposta soma tokens e custo (USAGE_PRICES) nos totais do dia e do mês do contato, da fila
+// e do tenant (hashes no Redis) e nos rankings do período (ZSET por tokens). Dias seguem o fuso
+// do horário de atendimento. O orçamento por contato (USAGE_DAILY_BUDGET / USAGE_MONTHLY_BUDGET)
+// é conferido antes de chamar o assistant
+export class UsageService {
+  private logger = createLogger({ service: 'usage' });
+  
+  private get redis(): Redis {
+    return cacheService.getClient();
+  }
+  
+  private totalsKey(period: string, dimension?: UsageDimension, id?: string): string {
+    return cacheService.buildKey(dimension ? `${period}:${dimension}:${id}` : `${period}:total`, 'usage');
+  }
+  
+  private rankingKey(period: string, dimension: UsageDimension): string {
+    return cacheService.buildKey(`${period}:${dimension}`, 'usage');
+  }
+  
+  // 💵 Custo em USD (preço do modelo mais específico da tabela que for prefixo do modelo usado)
+  cost(usage: TokenUsage): number {
+    const model = Object.keys(config.usage.prices)
+      .filter(name => usage.model === name || usage.model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+      
+    if (!model) {
+      return 0;
+    }
+    
+    const price = config.usage.prices[model];
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  }
+  
+  // ➕ Somar o consumo de uma resposta (falhas só são logadas - não devem refazer a resposta)
+  async record(message: InboundMessage, usage: TokenUsage): Promise<void> {
+    const cost = this.cost(usage);
+    const day = this.day();
+    const ids: Record<UsageDimension, string> = {
+      contact: message.contactId,
+      queue: this.queueId(message),
+      tenant: message.tenantId || DEFAULT_TENANT_ID
+    };
+    
+    try {
+      const pipeline = this.redis.multi();
+      
+      for (const [period, ttl] of [[day, config.usage.retentionDays * 86400], [day.slice(0, 7), MONTH_RETENTION]] as const) {
+        const keys = [this.totalsKey(period), ...DIMENSIONS.map(dimension => this.totalsKey(period, dimension, ids[dimension]))];
+        
+        for (const key of keys) {
+          pipeline
+            .hincrby(key, 'runs', 1)
+            .hincrby(key, 'promptTokens', usage.promptTokens)
+            .hincrby(key, 'completionTokens', usage.completionTokens)
+            .hincrby(key, 'totalTokens', usage.totalTokens)
+            .hincrbyfloat(key, 'cost', cost)
+            .expire(key, ttl);
+        }
+        
+        for (const dimension of DIMENSIONS) {
+          pipeline
+            .zincrby(this.rankingKey(period, dimension), usage.totalTokens, ids[dimension])
+            .expire(this.rankingKey(period, dimension), ttl);
+        }
+      }
+      
+      await pipeline.exec();
+      
+      this.logger.debug('💰 Consumo registrado', { userId: message.contactId, ...usage, cost });
+    } catch (error) {
+      this.logger.error('Erro ao registrar consumo de tokens', error, { userId: message.contactId, ...usage });
+    }
+  }
+  
+  // 🚦 Orçamento do contato no dia e no mês (sem Redis, o atendimento segue liberado)
+  async checkBudget(contactId: string): Promise<UsageBudgetStatus> {
+    const limits = { daily: config.usage.dailyBudget, monthly: config.usage.monthlyBudget };
+    const status: UsageBudgetStatus = { allowed: true, spent: { daily: 0, monthly: 0 }, limits };
+    
+    if (limits.daily <= 0 && limits.monthly <= 0) {
+      return status;
+    }
+    
+    try {
+      const day = this.day();
+      const [daily, monthly] = await Promise.all([
+        this.redis.hget(this.totalsKey(day, 'contact', contactId), 'cost'),
+        this.redis.hget(this.totalsKey(day.slice(0, 7), 'contact', contactId), 'cost')
+      ]);
+      
+      status.spent = { daily: parseFloat(daily || '0'), monthly: parseFloat(monthly || '0') };
+      
+      if (limits.daily > 0 && status.spent.daily >= limits.daily) {
+        status.exceeded = 'daily';
+      } else if (limits.monthly > 0 && status.spent.monthly >= limits.monthly) {
+        status.exceeded = 'monthly';
+      }
+      
+      status.allowed = !status.exceeded;
+      return status;
+    } catch (error) {
+      this.logger.error('Erro ao verificar orçamento do contato', error, { userId: contactId });
+      return status;
+    }
+  }
+  
+  // 📊 Consumo de um contato, fila ou tenant no período (AAAA-MM-DD ou AAAA-MM)
+  async getTotals(period: string, dimension?: UsageDimension, id?: string): Promise<UsageTotals> {
+    return this.parseTotals(await this.redis.hgetall(this.totalsKey(period, dimension, id)));
+  }
+  
+  // 📋 Relatório do dia ou do mês (padrão: mês atual) com os `limit` maiores consumidores de cada tipo
+  async report(period = this.currentMonth(), limit = 20): Promise<UsageReport> {
+    const [totals, contacts, queues, tenants] = await Promise.all([
+      this.getTotals(period),
+      this.ranking(period, 'contact', limit),
+      this.ranking(period, 'queue', limit),
+      this.ranking(period, 'tenant', limit)
+    ]);
+    
+    const report: UsageReport = { period, totals, contacts, queues, tenants };
+    
+    if (period.length === 7) {
+      const [year, month] = period.split('-').map(Number);
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const days = Array.from({ length: daysInMonth }, (_, index) => `${period}-${String(index + 1).padStart(2, '0')}`);
+      
+      report.days = (await Promise.all(days.map(async day => ({ day, ...await this.getTotals(day) }))))
+        .filter(day => day.runs > 0);
+    }
+    
+    return report;
+  }
+  
+  private async ranking(period: string, dimension: UsageDimension, limit: number): Promise<Array<UsageTotals & { id: string }>> {
+    const ids = await this.redis.zrevrange(this.rankingKey(period, dimension), 0, limit - 1);
+    return Promise.all(ids.map(async id => ({ id, ...await this.getTotals(period, dimension, id) })));
+  }
+  
+  private parseTotals(hash: Record<string, string>): UsageTotals {
+    return {
+      runs: parseInt(hash.runs || '0'),
+      promptTokens: parseInt(hash.promptTokens || '0'),
+      completionTokens: parseInt(hash.completionTokens || '0'),
+      totalTokens: parseInt(hash.totalTokens || '0'),
+      cost: Math.round(parseFloat(hash.cost || '0') * 1_000_000) / 1_000_000
+    };
+  }
+  
+  // Fila do Whaticket (nome, ou ID) - de outro tenant leva o prefixo dele, como o contactId
+  private queueId(message: InboundMessage): string {
+    const queue = message.queueName || (message.queueId ? String(message.queueId) : 'sem-fila');
+    return message.tenantId && message.tenantId !== DEFAULT_TENANT_ID ? `${message.tenantId}:${queue}` : queue;
+  }
+  
+  currentMonth(): string {
+    return this.day().slice(0, 7);
+  }
+  
+  // 📅 Dia (AAAA-MM-DD) no fuso do horário de atendimento
+  private day(date = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: config.businessHours.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(date);
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const usageService = new UsageService();
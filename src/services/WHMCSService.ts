@@ -1,6 +1,6 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { config } from '../config';
-import { createLogger } from '../utils/logger';
+import { createLogger, Logger } from '../utils/logger';
 import { cacheService, CacheKeys, CacheStrategies } from './CacheService';
 import { validators } from '../utils/validators';
 import type { 
@@ -8,17 +8,25 @@ import type {
   WHMCSInvoice, 
   WHMCSService as WHMCSServiceType, 
   WHMCSTicket,
-  WHMCSApiResponse 
+  WHMCSApiResponse,
+  TenantConfig
 } from '../types';
 
 // 💼 Serviço para integração com WHMCS API
+// Cada tenant tem a sua instância (credenciais próprias e cache isolado pelo tenantId)
 export class WHMCSService {
   private client: AxiosInstance;
-  private logger = createLogger({ service: 'whmcs' });
+  private logger: Logger;
+  private credentials: TenantConfig['whmcs'];
+  private tenantId?: string;
   
-  constructor() {
+  constructor(credentials: TenantConfig['whmcs'] = config.whmcs, tenantId?: string) {
+    this.credentials = credentials;
+    this.tenantId = tenantId;
+    this.logger = createLogger(tenantId ? { service: 'whmcs', tenantId } : { service: 'whmcs' });
+    
     this.client = axios.create({
-      baseURL: config.whmcs.apiUrl,
+      baseURL: credentials.apiUrl,
       timeout: 30000,
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -59,8 +67,8 @@ export class WHMCSService {
   private prepareAuthData(action: string, additionalData: Record<string, any> = {}) {
     return {
       action,
-      username: config.whmcs.identifier,
-      password: config.whmcs.secret,
+      username: this.credentials.identifier,
+      password: this.credentials.secret,
       responsetype: 'json',
       ...additionalData
     };
@@ -100,7 +108,7 @@ export class WHMCSService {
   
   // 👤 Buscar cliente por identificador (email, CPF, ID, etc.)
   async findClient(identifier: string): Promise<WHMCSClient | null> {
-    const cacheKey = CacheKeys.client(identifier);
+    const cacheKey = CacheKeys.tenant(this.tenantId, CacheKeys.client(identifier));
     
     return await cacheService.getOrSet(
       cacheKey,
@@ -168,7 +176,7 @@ export class WHMCSService {
     offset?: number;
   }): Promise<WHMCSInvoice[]> {
     const { clientId, status = 'Unpaid', limit = 10, offset = 0 } = options;
-    const cacheKey = CacheKeys.clientInvoices(clientId, status);
+    const cacheKey = CacheKeys.tenant(this.tenantId, CacheKeys.clientInvoices(clientId, status));
     
     return await cacheService.getOrSet(
       cacheKey,
@@ -211,7 +219,7 @@ export class WHMCSService {
     status?: string;
   }): Promise<WHMCSServiceType[]> {
     const { clientId, pid, domain, status } = options;
-    const cacheKey = CacheKeys.clientServices(clientId);
+    const cacheKey = CacheKeys.tenant(this.tenantId, CacheKeys.clientServices(clientId));
     
     return await cacheService.getOrSet(
       cacheKey,
@@ -381,8 +389,8 @@ export class WHMCSService {
   // 📊 Limpar cache relacionado a um cliente
   async clearClientCache(clientId: number): Promise<void> {
     await Promise.all([
-      cacheService.clearPattern(`client:${clientId}:*`),
-      cacheService.clearPattern(`client:*:${clientId}`)
+      cacheService.clearPattern(CacheKeys.tenant(this.tenantId, `client:${clientId}:*`)),
+      cacheService.clearPattern(CacheKeys.tenant(this.tenantId, `client:*:${clientId}`))
     ]);
     
     this.logger.info(`Cache limpo para cliente ${clientId}`);
@@ -0,0 +1,188 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Blob } from 'buffer';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import type {
+  TenantConfig,
+  WhaticketMedia,
+  WhaticketQueue,
+  WhaticketSendResult,
+  WhaticketTicket,
+  WhaticketTicketStatus
+} from '../types';
+
+// 📱 Cliente da API do Whaticket (envio de mensagens, tickets e filas)
+// Usa WHATICKET_URL e o Bearer WHATICKET_TOKEN (ou o endpoint do tenant); as rotas de
+// tickets e filas exigem um token com acesso a elas na instância
+export class WhaticketClient {
+  private client: AxiosInstance;
+  private logger = createLogger({ service: 'whaticket' });
+  private endpoint: TenantConfig['whaticket'];
+  
+  constructor(endpoint: TenantConfig['whaticket'] = config.whaticket) {
+    this.endpoint = endpoint;
+    this.client = axios.create({
+      baseURL: (endpoint.url || '').replace(/\/+$/, ''),
+      timeout: 30000,
+      headers: {
+        'Authorization': `Bearer ${endpoint.token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'WHMCS-Assistant/1.0'
+      }
+    });
+  }
+  
+  // 📤 Executar chamada para API do Whaticket
+  private async request<T>(method: 'get' | 'post' | 'put', path: string, data?: any, options: AxiosRequestConfig = {}): Promise<T> {
+    const start = Date.now();
+    
+    try {
+      const response = await this.client.request<T>({ method, url: path, data, ...options });
+      
+      this.logger.debug(`Whaticket ${method.toUpperCase()} ${path}`, {
+        statusCode: response.status,
+        duration: Date.now() - start
+      });
+      
+      return response.data;
+    } catch (error) {
+      const status = error.response?.status;
+      const detail = error.response?.data?.error || error.response?.data?.message || error.message;
+      
+      this.logger.error(`❌ Erro na API Whaticket: ${method.toUpperCase()} ${path}`, error, {
+        statusCode: status,
+        duration: Date.now() - start,
+        errorResponse: error.response?.data
+      });
+      
+      throw new Error(status ? `Whaticket API ${status}: ${detail}` : `Whaticket API: ${detail}`);
+    }
+  }
+  
+  // 💬 Enviar mensagem de texto
+  async sendText(number: string, body: string): Promise<WhaticketSendResult> {
+    const data = await this.request<any>('post', '/api/messages/send', {
+      number: this.normalizeNumber(number),
+      body
+    });
+    
+    this.logger.info('✅ Mensagem enviada pelo Whaticket', { number, responseLength: body.length });
+    
+    return this.toSendResult(data);
+  }
+  
+  // 📎 Enviar mídia ou documento (imagem, áudio, vídeo, PDF...) com legenda opcional
+  async sendMedia(number: string, media: WhaticketMedia): Promise<WhaticketSendResult> {
+    let content = media.data;
+    let mimeType = media.mimeType;
+    
+    if (!content) {
+      if (!media.url) {
+        throw new Error('Mídia sem url ou conteúdo');
+      }
+      
+      const download = await axios.get<ArrayBuffer>(media.url, { responseType: 'arraybuffer', timeout: 30000 });
+      content = Buffer.from(download.data);
+      mimeType = mimeType || download.headers['content-type'];
+    }
+    
+    const form = new FormData();
+    form.append('number', this.normalizeNumber(number));
+    form.append('body', media.caption || '');
+    form.append('medias', new Blob([content], { type: mimeType || 'application/octet-stream' }) as any, media.filename);
+    
+    const data = await this.request<any>('post', '/api/messages/send', form, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    
+    this.logger.info('✅ Mídia enviada pelo Whaticket', { number, filename: media.filename, size: content.length });
+    
+    return this.toSendResult(data);
+  }
+  
+  // 🔀 Transferir ticket para uma fila (volta para "pending" sem atendente)
+  async transferTicket(ticketId: number, queueId: number, userId: number | null = null): Promise<WhaticketTicket> {
+    const ticket = await this.request<WhaticketTicket>('put', `/tickets/${ticketId}`, {
+      queueId,
+      userId,
+      status: userId ? 'open' : 'pending'
+    });
+    
+    this.logger.info('🔀 Ticket transferido', { ticketId, queueId, assignedUserId: userId });
+    return ticket;
+  }
+  
+  // 🏷️ Alterar status do ticket
+  async setTicketStatus(ticketId: number, status: WhaticketTicketStatus): Promise<WhaticketTicket> {
+    const ticket = await this.request<WhaticketTicket>('put', `/tickets/${ticketId}`, { status });
+    
+    this.logger.info('🏷️ Status do ticket alterado', { ticketId, status });
+    return ticket;
+  }
+  
+  // ✅ Fechar ticket
+  async closeTicket(ticketId: number): Promise<WhaticketTicket> {
+    return this.setTicketStatus(ticketId, 'closed');
+  }
+  
+  // 📝 Adicionar observação interna ao ticket (visível só para os atendentes)
+  async addTicketNote(ticketId: number, note: string, contactId?: number): Promise<void> {
+    await this.request('post', '/ticket-notes', { ticketId, contactId, note });
+    
+    this.logger.info('📝 Observação adicionada ao ticket', { ticketId, noteLength: note.length });
+  }
+  
+  // 📋 Listar filas da instância
+  async listQueues(): Promise<WhaticketQueue[]> {
+    const queues = await this.request<WhaticketQueue[]>('get', '/queue');
+    return Array.isArray(queues) ? queues : [];
+  }
+  
+  // 📞 Número apenas com dígitos
+  private normalizeNumber(number: string): string {
+    const digits = (number || '').replace(/\D/g, '');
+    
+    if (!digits) {
+      throw new Error('Número de contato inválido');
+    }
+    
+    return digits;
+  }
+  
+  // 🔄 Resposta de envio (o formato varia entre versões do Whaticket)
+  private toSendResult(data: any): WhaticketSendResult {
+    return {
+      success: true,
+      messageId: data?.messageId || data?.id || data?.message?.id,
+      message: typeof data?.mensagem === 'string' ? data.mensagem : data?.message
+    };
+  }
+  
+  // 🏥 Health check da API do Whaticket
+  async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; latency?: number; queues?: number; error?: string }> {
+    if (!this.endpoint.url || !this.endpoint.token) {
+      return { status: 'unhealthy', error: 'WHATICKET_URL/WHATICKET_TOKEN não configurados' };
+    }
+    
+    try {
+      const start = Date.now();
+      const queues = await this.listQueues();
+      
+      return {
+        status: 'healthy',
+        latency: Date.now() - start,
+        queues: queues.length
+      };
+    } catch (error) {
+      this.logger.error('Health check Whaticket falhou', error);
+      
+      return {
+        status: 'unhealthy',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const whaticketClient = new WhaticketClient();
@@ -0,0 +1,69 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+
+// 🟢 Serviço para envio de mensagens pela WhatsApp Cloud API (Graph API da Meta)
+export class WhatsAppCloudService {
+  private client: AxiosInstance;
+  private logger = createLogger({ service: 'whatsapp-cloud' });
+  
+  constructor() {
+    this.client = axios.create({
+      baseURL: `${config.whatsappCloud.graphUrl.replace(/\/+$/, '')}/${config.whatsappCloud.apiVersion}`,
+      timeout: config.whatsappCloud.timeout,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'WHMCS-Assistant/1.0'
+      }
+    });
+  }
+  
+  // 📤 Enviar mensagem de texto para um contato
+  async sendText(phoneNumberId: string, to: string, body: string): Promise<{ messageId?: string }> {
+    if (!config.whatsappCloud.accessToken) {
+      throw new Error('WHATSAPP_CLOUD_ACCESS_TOKEN não configurado');
+    }
+    
+    try {
+      const response = await this.client.post(`/${phoneNumberId}/messages`, {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to,
+        type: 'text',
+        text: {
+          preview_url: false,
+          body
+        }
+      }, {
+        headers: {
+          'Authorization': `Bearer ${config.whatsappCloud.accessToken}`
+        }
+      });
+      
+      const messageId = response.data?.messages?.[0]?.id;
+      this.logger.info('✅ Mensagem enviada pela Cloud API', {
+        phoneNumberId,
+        to,
+        messageId,
+        responseLength: body.length
+      });
+      
+      return { messageId };
+    } catch (error) {
+      const graphError = error.response?.data?.error;
+      this.logger.error('❌ Erro ao enviar mensagem pela Cloud API', error, {
+        phoneNumberId,
+        to,
+        status: error.response?.status,
+        graphError
+      });
+      
+      throw new Error(graphError
+        ? `Graph API ${error.response.status}: ${graphError.message} (code ${graphError.code})`
+        : error.message);
+    }
+  }
+}
+
+// 🌟 Instância singleton para uso global
+export const whatsAppCloudService = new WhatsAppCloudService();
@@ -1,5 +1,7 @@
 // 🏗️ TIPOS ESSENCIAIS DO WHMCS ASSISTANT
 
+import type { Request } from 'express';
+
 // OpenAI Types
 export interface OpenAIMessage {
   role: 'user' | 'assistant';
@@ -23,6 +25,13 @@ export interface OpenAIRun {
       tool_calls: ToolCall[];
     };
   } | null;
+  model?: string;
+  // Preenchido quando o run termina (soma de todas as etapas do run)
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
 }
 
 export interface ToolCall {
@@ -39,6 +48,15 @@ export interface ToolOutput {
   output: string;
 }
 
+// Tempo de cada function call de um run (registrado no log da resposta)
+export interface ToolCallTiming {
+  name: string;
+  toolCallId: string;
+  duration: number;
+  success: boolean;
+  timedOut?: boolean;
+}
+
 // WHMCS Types
 export interface WHMCSClient {
   id: number;
@@ -168,14 +186,576 @@ export interface WhaTicketWebhook {
     mediaUrl?: string;
     timestamp?: number;
   };
+  // Formato REAL do Whaticket
+  filaescolhida?: string;
+  filaescolhidaid?: number;
+  mensagem?: string;
+  sender?: string;
+  chamadoId?: number;
+  acao?: string;
+  name?: string;
+  companyId?: number;
+  defaultWhatsapp_x?: number;
+  fromMe?: boolean;
+  queueId?: number;
+  isGroup?: boolean;
+  ticketData?: {
+    id?: number;
+    status?: string;
+    unreadMessages?: number;
+    lastMessage?: string;
+    contact?: {
+      id?: number;
+      name?: string;
+      number?: string;
+    };
+    whatsapp?: {
+      id?: number;
+      name?: string;
+    };
+  };
+}
+
+// Whaticket API Types
+export type WhaticketTicketStatus = 'open' | 'pending' | 'closed';
+
+export interface WhaticketSendResult {
+  success: boolean;
+  messageId?: string;
+  message?: string;
+}
+
+// Mídia ou documento: url (baixada antes do envio) ou conteúdo em memória
+export interface WhaticketMedia {
+  url?: string;
+  data?: Buffer;
+  filename: string;
+  mimeType?: string;
+  caption?: string;
+}
+
+export interface WhaticketQueue {
+  id: number;
+  name: string;
+  color?: string;
+  greetingMessage?: string;
+}
+
+export interface WhaticketTicket {
+  id: number;
+  status: WhaticketTicketStatus;
+  queueId?: number | null;
+  userId?: number | null;
+  contactId?: number;
+  whatsappId?: number;
+}
+
+// WhatsApp Cloud API (Meta) Types
+export interface WhatsAppCloudMessage {
+  id: string;
+  from: string;
+  timestamp: string;
+  type: string;
+  text?: {
+    body: string;
+  };
+  button?: {
+    text: string;
+    payload?: string;
+  };
+  interactive?: {
+    type: string;
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+  image?: { id: string; caption?: string; mime_type?: string };
+  document?: { id: string; caption?: string; filename?: string; mime_type?: string };
+  video?: { id: string; caption?: string; mime_type?: string };
+}
+
+export interface WhatsAppCloudStatus {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed' | string;
+  recipient_id: string;
+  timestamp: string;
+  errors?: { code: number; title: string; message?: string }[];
+}
+
+export interface WhatsAppCloudValue {
+  messaging_product: 'whatsapp';
+  metadata: {
+    display_phone_number: string;
+    phone_number_id: string;
+  };
+  contacts?: {
+    wa_id: string;
+    profile?: { name?: string };
+  }[];
+  messages?: WhatsAppCloudMessage[];
+  statuses?: WhatsAppCloudStatus[];
+}
+
+export interface WhatsAppCloudWebhook {
+  object: string;
+  entry: {
+    id: string;
+    changes: {
+      field: string;
+      value: WhatsAppCloudValue;
+    }[];
+  }[];
+}
+
+// Uma mensagem da Cloud API com o número (phone_number_id) que a recebeu
+export interface WhatsAppCloudInbound {
+  phoneNumberId: string;
+  contactName?: string;
+  message: WhatsAppCloudMessage;
+}
+
+// Channel Types
+// Mensagem recebida normalizada - independente do provedor que entregou o webhook
+export interface InboundMessage {
+  channel: string;
+  contactId: string;
+  // Conta do canal que recebeu a mensagem (ex: phone_number_id da Cloud API)
+  accountId?: string;
+  contactNumber?: string;
+  contactName?: string;
+  text: string;
+  messageId?: string;
+  ticketId?: number;
+  timestamp?: number;
+  queueId?: number;
+  queueName?: string;
+  companyId?: number;
+  whatsappId?: number;
+  ticketStatus?: string;
+  event?: string;
+  isGroup?: boolean;
+  // Tenant que atende a conversa (resolvido pelo companyId ou pela rota do webhook)
+  tenantId?: string;
+}
+
+// Adaptador de canal de entrada (Whaticket, WhatsApp Cloud API, ...)
+// TMessage difere de TPayload quando um webhook traz várias mensagens (split)
+export interface ChannelAdapter<TPayload = any, TMessage = TPayload> {
+  readonly name: string;
+  readonly description: string;
+  verifySignature(req: Request): boolean;
+  verifyChallenge?(query: Record<string, any>): string | null;
+  parse(body: unknown): TPayload | null;
+  split?(payload: TPayload): TMessage[];
+  shouldProcess(message: TMessage): boolean;
+  // Mensagem enviada pelo nosso lado (atendente ou eco do próprio bot)
+  isFromAgent?(message: TMessage): boolean;
+  identifyContact(message: TMessage): string | null;
+  normalize(message: TMessage, contactId: string): InboundMessage;
+  sendText?(message: InboundMessage, text: string): Promise<{ messageId?: string }>;
+}
+
+// Regras de filtragem de conversas - a primeira regra que casar decide
+// Campos do match são combinados com E; listas casam com qualquer item
+export type ConversationRuleAction = 'allow' | 'deny';
+
+export interface ConversationRuleMatch {
+  channels?: string[];
+  queueIds?: number[];
+  queueNames?: string[];
+  isGroup?: boolean;
+  // Número exato, com curinga (5511*) ou regex entre barras (/^5511/)
+  contactNumbers?: string[];
+  whatsappIds?: number[];
+  companyIds?: number[];
+}
+
+export interface ConversationRule {
+  name: string;
+  action: ConversationRuleAction;
+  match: ConversationRuleMatch;
+}
+
+export interface ConversationRuleSet {
+  default: ConversationRuleAction;
+  rules: ConversationRule[];
+}
+
+export interface ConversationRuleDecision {
+  allowed: boolean;
+  // Nome da regra que decidiu (ausente quando vale o default)
+  rule?: string;
+}
+
+// Rota de fila para assistant - a primeira rota do tenant que casar com a fila decide
+export interface AssistantRoute {
+  // Também separa a thread do contato (uma thread por rota)
+  name: string;
+  // Tenant dono das filas (padrão: tenant do .env)
+  tenantId?: string;
+  queueIds?: number[];
+  queueNames?: string[];
+  assistantId: string;
+  // Funções do FunctionFactory liberadas na fila (ausente = todas)
+  functions?: string[];
+  // Arquivo com as instruções do assistant (usado pela sincronização)
+  instructionsFile?: string;
+}
+
+// Assistant sincronizado com o registro de funções local (assistant do tenant ou de uma rota de fila)
+export interface AssistantSyncTarget {
+  tenantId: string;
+  assistantId: string;
+  // Rota de fila dona do assistant (ausente = assistant do tenant)
+  route?: string;
+  functions?: string[];
+  instructionsFile?: string;
+}
+
+export interface AssistantSyncDiff {
+  tenantId: string;
+  assistantId: string;
+  route?: string;
+  inSync: boolean;
+  model?: { remote: string; local: string };
+  // Só comparadas quando há arquivo de instruções local; diff linha a linha do remoto para o local
+  instructions?: { remoteLength: number; localLength: number; diff: string[] };
+  tools: {
+    added: string[];
+    removed: string[];
+    changed: string[];
+  };
+  // Preenchido quando o assistant não pôde ser consultado ou atualizado
+  error?: string;
+  applied?: boolean;
+}
+
+// Tenant - empresa (revenda) atendida pela instalação, com integrações e marca próprias
+export interface TenantBranding {
+  name: string;
+  supportPhone?: string;
+  supportEmail?: string;
+}
+
+export interface TenantConfig {
+  id: string;
+  name: string;
+  // companyId do Whaticket atendidos pelo tenant
+  companyIds: number[];
+  whmcs: {
+    apiUrl: string;
+    identifier: string;
+    secret: string;
+  };
+  openai: {
+    assistantId: string;
+    apiKey?: string;
+  };
+  whaticket: {
+    url: string;
+    token: string;
+  };
+  // Fila de atendimento humano no Whaticket do tenant (padrão: HANDOFF_QUEUE_ID)
+  handoffQueueId?: number;
+  branding: TenantBranding;
+}
+
+// Mensagem recebida aguardando na janela de debounce
+export interface BufferedMessage {
+  requestId: string;
+  message: InboundMessage;
+  receivedAt: string;
+}
+
+// Job da fila de mensagens recebidas
+export interface InboundMessageJob {
+  requestId: string;
+  userId?: string;
+  receivedAt: string;
+  // Mensagem única (debounce desativado)
+  message?: InboundMessage;
+  // Flush da janela de debounce: as mensagens são coletadas do buffer do contato
+  debounced?: boolean;
+  batch?: BufferedMessage[];
+  // Passos já concluídos - gravados com a falha, o retry continua de onde parou
+  progress?: InboundMessageProgress;
+}
+
+export interface InboundMessageProgress {
+  // Mensagem do cliente já adicionada à thread (não é adicionada de novo)
+  threadMessage?: ThreadMessageRef;
+  // Resposta do assistant - o run pago não é refeito
+  response?: string;
+  usage?: TokenUsage;
+  usageRecorded?: boolean;
+  // Partes da resposta já gravadas na outbox
+  partsQueued?: number;
+}
+
+// Outbox - mensagens de saída com rastreio de entrega
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxMessage {
+  id: string;
+  channel: string;
+  contactId: string;
+  contactNumber?: string;
+  text: string;
+  // Parte da resposta (respostas longas são divididas)
+  part: number;
+  parts: number;
+  status: OutboxStatus;
+  attempts: number;
+  requestId: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  failedAt?: string;
+  lastError?: string;
+  providerMessageId?: string;
+}
+
+export interface OutboxEnqueueOptions {
+  // Partes já gravadas numa tentativa anterior (não são gravadas de novo)
+  skipParts?: number;
+  // Chamado depois de cada parte gravada e agendada
+  onPartQueued?: (record: OutboxMessage) => void;
+}
+
+// Job da fila de mensagens de saída
+export interface OutboundMessageJob {
+  outboxId: string;
+  requestId: string;
+  message: InboundMessage;
+  text: string;
+}
+
+// Handoff - conversa transferida para um atendente humano
+export type HandoffRequester = 'keyword' | 'command' | 'assistant';
+
+export type HandoffTarget = Pick<InboundMessage, 'channel' | 'contactId' | 'contactNumber' | 'contactName' | 'ticketId' | 'tenantId'>;
+
+export interface HandoffState {
+  contactId: string;
+  channel: string;
+  ticketId: number;
+  queueId: number;
+  reason: string;
+  requestedBy: HandoffRequester;
+  since: string;
+  // Pedido fora do horário: a transferência acontece na próxima abertura
+  scheduledFor?: string;
+  // Job da fila 'handoff' que fará a transferência (jobs de pedidos anteriores são descartados)
+  jobId?: string;
+}
+
+export interface HandoffRequestOptions {
+  reason: string;
+  requestedBy: HandoffRequester;
+  summary?: string;
+  transcript?: ConversationMessage[];
+}
+
+// Job da fila de transferências agendadas
+export interface HandoffJob {
+  target: HandoffTarget;
+  options: HandoffRequestOptions;
+}
+
+// Horário de atendimento humano
+export interface BusinessHoursStatus {
+  enabled: boolean;
+  open: boolean;
+  timezone: string;
+  holiday?: string;
+  closesAt?: string;
+  nextOpenAt?: string;
+  // Próxima abertura por extenso (ex: "segunda-feira, 21/10 às 08:00")
+  nextOpenLabel?: string;
+}
+
+// Pausa do bot por contato (atendente respondeu ou pausa manual)
+// opt-out: o próprio cliente pediu para parar as mensagens automáticas (/parar)
+export type BotPauseReason = 'agent' | 'command' | 'admin' | 'opt-out';
+
+export interface BotPauseState {
+  contactId: string;
+  reason: BotPauseReason;
+  pausedAt: string;
+  until: string;
+}
+
+// Cliente WHMCS confirmado para o contato (telefone do cadastro = número do WhatsApp)
+export interface VerifiedClient {
+  contactId: string;
+  clientId: number;
+  verifiedAt: string;
+}
+
+// Contato bloqueado (não recebe respostas do bot)
+export interface BlockedContact {
+  contactId: string;
+  reason: string;
+  blockedAt: string;
+  until: string;
+}
+
+// Mensagem da conversa (para o resumo entregue ao atendente)
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt?: string;
+}
+
+// Conversa do contato com o assistant (uma por rota de fila) - termina após THREAD_INACTIVITY_TIMEOUT sem mensagens
+export interface ConversationThread {
+  contactId: string;
+  // Rota da fila ('' = assistant do tenant)
+  scope: string;
+  // Provedor de LLM que criou a conversa (a thread não vale em outro)
+  provider: string;
+  // Thread da OpenAI (provedor assistants) ou identificador do histórico (provedor chat)
+  threadId: string;
+  // Resumo das conversas anteriores, entregue ao assistant enquanto esta durar
+  summary?: string;
+  startedAt: string;
+  lastActivityAt: string;
+}
+
+// Provedor de LLM - gera a resposta do assistant para a mensagem do contato (LLM_PROVIDER)
+export interface LLMResponse {
+  success: boolean;
+  response?: string;
+  error?: string;
+  // Tokens consumidos para gerar a resposta (ausente quando o provedor não informa)
+  usage?: TokenUsage;
+  // Mensagem do cliente adicionada à thread (também em caso de erro, para o retry reaproveitar)
+  threadMessage?: ThreadMessageRef;
+}
+
+export interface ThreadMessageRef {
+  threadId: string;
+  messageId: string;
+}
+
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Consumo acumulado (dia ou mês) de um contato, fila, tenant ou da instalação inteira
+export interface UsageTotals {
+  runs: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD pela tabela USAGE_PRICES (modelos sem preço contam tokens com custo 0)
+  cost: number;
+}
+
+export type UsageDimension = 'contact' | 'queue' | 'tenant';
+
+// Relatório de consumo de um dia (AAAA-MM-DD) ou de um mês (AAAA-MM), maiores consumidores primeiro
+export interface UsageReport {
+  period: string;
+  totals: UsageTotals;
+  // Só no relatório mensal
+  days?: Array<UsageTotals & { day: string }>;
+  contacts: Array<UsageTotals & { id: string }>;
+  queues: Array<UsageTotals & { id: string }>;
+  tenants: Array<UsageTotals & { id: string }>;
+}
+
+// Orçamento do contato (allowed = false: responder com USAGE_FALLBACK_MESSAGE)
+export interface UsageBudgetStatus {
+  allowed: boolean;
+  // Período cujo orçamento estourou
+  exceeded?: 'daily' | 'monthly';
+  spent: { daily: number; monthly: number };
+  limits: { daily: number; monthly: number };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Envia a mensagem com a conversa e as funções do contato; function calls são executadas até a resposta final
+  processMessage(message: string, userId?: string, context?: FunctionContext): Promise<LLMResponse>;
+  // Últimas mensagens da conversa (mais antigas primeiro; scope = rota da fila)
+  getRecentMessages(userId: string, limit?: number, scope?: string): Promise<ConversationMessage[]>;
+  healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; latency?: number; [key: string]: any }>;
+  // Encerra as conversas do contato (a do tenant e as das rotas em scopes)
+  clearUserThread(userId: string, scopes?: string[]): Promise<boolean>;
+}
+
+// Comandos digitados pelo cliente (/reset, /humano, /ajuda...) - respondidos sem o assistant
+export type ChatCommandLocale = 'pt-BR' | 'en' | 'es';
+
+export interface ChatCommandContext {
+  message: InboundMessage;
+  requestId: string;
+  // Rota da fila da mensagem (null = assistant do tenant)
+  assistantRoute: AssistantRoute | null;
+  // Comandos do menu, na ordem de registro
+  commands: ChatCommand[];
+  locale: ChatCommandLocale;
+  // Texto no idioma de CHAT_COMMANDS_LOCALE, com {{variáveis}}
+  t(key: string, variables?: Record<string, string | number>): string;
+  // Transfere para um atendente e avisa o cliente (false = transferência indisponível)
+  transferToHuman(): Promise<boolean>;
+}
+
+export interface ChatCommand {
+  name: string;
+  // Mensagens que disparam o comando: a mensagem inteira, sem acento e em minúsculas
+  // ("/parar" só vale com a barra; "ajuda" vale com ou sem)
+  triggers: string[];
+  // Fora do menu do /ajuda
+  hidden?: boolean;
+  // Resposta ao cliente (undefined = o próprio comando já respondeu)
+  execute(context: ChatCommandContext): Promise<string | undefined>;
+}
+
+// Roteiro do provedor fake (LLM_PROVIDER=fake) - a primeira regra que casar com a mensagem responde
+// Textos aceitam {{message}}, {{contactName}}, {{contactNumber}} e os grupos nomeados de pattern;
+// a resposta também aceita {{nome_da_funcao}} com a mensagem devolvida pela função
+export interface FakeLLMRule {
+  name: string;
+  // Palavras ou frases contidas na mensagem (sem acento, sem diferenciar maiúsculas)
+  keywords?: string[];
+  // Regex (sem diferenciar maiúsculas)
+  pattern?: string;
+  // Com result a função não é executada (resultado fixo, sem WHMCS nem Whaticket)
+  toolCalls?: Array<{ name: string; arguments?: Record<string, any>; result?: FunctionResult }>;
+  reply: string;
+}
+
+export interface FakeLLMFixtures {
+  // Resposta quando nenhuma regra casa
+  fallback: string;
+  rules: FakeLLMRule[];
 }
 
 // Function Types
 export interface FunctionContext {
   threadId?: string;
+  // contactId do contato que está conversando
   userId?: string;
+  // Cliente WHMCS verificado pelo telefone (ausente = ainda não confirmado)
   clientId?: number;
   sessionId?: string;
+  tenantId?: string;
+  channel?: string;
+  contactNumber?: string;
+  contactName?: string;
+  queueId?: number;
+  queueName?: string;
+  companyId?: number;
+  ticketId?: number;
+  // Rota da fila do contato (assistant, funções liberadas e thread próprios)
+  assistantRoute?: AssistantRoute;
+  businessHours?: BusinessHoursStatus;
+  // Mensagem do cliente já adicionada à thread numa tentativa anterior
+  threadMessage?: ThreadMessageRef;
   metadata?: Record<string, any>;
 }
 
@@ -293,6 +873,37 @@ export interface LogContext {
   success?: boolean;
   timestamp?: number;
   metadata?: Record<string, any>;
+  [key: string]: any;
+}
+
+// Queue Types
+export interface QueueJob<T = any> {
+  id: string;
+  queue: string;
+  data: T;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  lastError?: string;
+  failedAt?: string;
+  groupId?: string;
+  runAt?: number;
+}
+
+export interface QueueJobOptions {
+  jobId?: string;
+  delay?: number;
+  maxAttempts?: number;
+  // Jobs do mesmo grupo são processados um de cada vez, na ordem de chegada
+  groupId?: string;
+}
+
+export interface QueueStats {
+  queue: string;
+  waiting: number;
+  active: number;
+  delayed: number;
+  dead: number;
 }
 
 // Environment Types
@@ -311,6 +922,7 @@ export interface WebhookValidation {
 
 // Rate Limiting
 export interface RateLimitInfo {
+  allowed: boolean;
   remaining: number;
   resetTime: number;
   limit: number;
@@ -0,0 +1,23 @@
+// 🔀 Execução concorrente com limite
+
+// Executa fn para cada item com no máximo `limit` execuções simultâneas (resultados na ordem dos itens)
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  
+  const workers = Math.min(Math.max(limit, 1), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  
+  return results;
+}
@@ -0,0 +1,28 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lineDiff } from './diff';
+
+// 🧪 Diff das instruções mostrado pelo assistant:sync
+describe('lineDiff', () => {
+  test('linha alterada aparece como remoção e adição, com o contexto', () => {
+    assert.deepEqual(lineDiff('a\nb\nc', 'a\nB\nc'), ['  a', '- b', '+ B', '  c']);
+  });
+
+  test('mostra a mudança mesmo com o mesmo tamanho de texto', () => {
+    assert.deepEqual(lineDiff('Responda em português', 'Responda em portugues'), [
+      '- Responda em português',
+      '+ Responda em portugues'
+    ]);
+  });
+
+  test('separa trechos distantes e omite as linhas iguais entre eles', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    const after = ['0', '1', '2', '3', '4', '5', '6', '7'].join('\n');
+
+    assert.deepEqual(lineDiff(before, after), ['+ 0', '  1', '  2', '@@', '  6', '  7', '- 8']);
+  });
+
+  test('textos iguais não geram diff', () => {
+    assert.deepEqual(lineDiff('a\nb', 'a\nb'), []);
+  });
+});
@@ -0,0 +1,51 @@
+// 📝 Diferença linha a linha entre dois textos (formato parecido com o unified diff)
+
+// Linhas prefixadas com "- " (só no antes), "+ " (só no depois) ou "  " (contexto), com até
+// `context` linhas iguais em volta de cada trecho alterado; trechos distantes são separados por "@@"
+export function lineDiff(before: string, after: string, context = 2): string[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  
+  // Maior subsequência comum, do fim para o começo
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  
+  const lines: Array<{ type: ' ' | '-' | '+'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: ' ', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ type: '-', text: a[i++] });
+    } else {
+      lines.push({ type: '+', text: b[j++] });
+    }
+  }
+  
+  // Só os trechos alterados e o contexto em volta deles
+  const visible = lines.map((_, index) =>
+    lines.slice(Math.max(index - context, 0), index + context + 1).some(line => line.type !== ' ')
+  );
+  
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (!visible[index]) {
+      return;
+    }
+    
+    if (output.length > 0 && !visible[index - 1]) {
+      output.push('@@');
+    }
+    
+    output.push(`${line.type} ${line.text}`);
+  });
+  
+  return output;
+}
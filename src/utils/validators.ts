@@ -100,6 +100,40 @@ export const whaTicketWebhookSchema = z.object({
   }).optional()
 }).passthrough();
 
+// WhatsApp Cloud API (Meta) - envelope do webhook; mensagens são validadas pelo canal
+export const whatsappCloudWebhookSchema = z.object({
+  object: z.literal('whatsapp_business_account'),
+  entry: z.array(z.object({
+    id: z.string(),
+    changes: z.array(z.object({
+      field: z.string(),
+      value: z.object({
+        messaging_product: z.string().optional(),
+        metadata: z.object({
+          display_phone_number: z.string(),
+          phone_number_id: z.string()
+        }).passthrough().optional(),
+        contacts: z.array(z.object({
+          wa_id: z.string(),
+          profile: z.object({ name: z.string().optional() }).passthrough().optional()
+        }).passthrough()).optional(),
+        messages: z.array(z.object({
+          id: z.string(),
+          from: z.string(),
+          timestamp: z.string(),
+          type: z.string()
+        }).passthrough()).optional(),
+        statuses: z.array(z.object({
+          id: z.string(),
+          status: z.string(),
+          recipient_id: z.string(),
+          timestamp: z.string()
+        }).passthrough()).optional()
+      }).passthrough()
+    }).passthrough())
+  }).passthrough())
+}).passthrough();
+
 // Function Parameter Schemas
 export const getClientInvoicesSchema = z.object({
   client_identifier: z.string().min(1, 'Identificador do cliente é obrigatório'),
@@ -125,6 +159,118 @@ export const createTicketSchema = z.object({
   department: z.string().optional()
 });
 
+// Regras de quais conversas o bot atende (CONVERSATION_RULES / CONVERSATION_RULES_FILE)
+export const conversationRulesSchema = z.object({
+  default: z.enum(['allow', 'deny']).default('allow'),
+  rules: z.array(z.object({
+    name: z.string().min(1, 'Regra sem nome'),
+    action: z.enum(['allow', 'deny']),
+    match: z.object({
+      channels: z.array(z.string()).optional(),
+      queueIds: z.array(z.number()).optional(),
+      queueNames: z.array(z.string()).optional(),
+      isGroup: z.boolean().optional(),
+      contactNumbers: z.array(z.string()).optional(),
+      whatsappIds: z.array(z.number()).optional(),
+      companyIds: z.array(z.number()).optional()
+    }).strict()
+  })).default([])
+});
+
+// Tenants atendidos pela instalação (TENANTS / TENANTS_FILE)
+export const tenantsSchema = z.array(z.object({
+  id: z.string()
+    .regex(/^[a-z0-9-]+$/, 'ID do tenant deve ter apenas letras minúsculas, números e hífen')
+    .refine(id => id !== 'default', 'O ID "default" é reservado para a empresa do .env'),
+  name: z.string().min(1, 'Nome do tenant é obrigatório'),
+  companyIds: z.array(z.number()).default([]),
+  whmcs: z.object({
+    apiUrl: z.string().url('URL da API WHMCS inválida'),
+    identifier: z.string().min(1),
+    secret: z.string().min(1)
+  }),
+  openai: z.object({
+    assistantId: z.string().startsWith('asst_', 'Assistant ID deve começar com "asst_"'),
+    apiKey: z.string().startsWith('sk-').optional()
+  }),
+  whaticket: z.object({
+    url: z.string().url('URL do Whaticket inválida'),
+    token: z.string().min(1)
+  }),
+  handoffQueueId: z.number().optional(),
+  branding: z.object({
+    name: z.string().min(1),
+    supportPhone: z.string().optional(),
+    supportEmail: z.string().email().optional()
+  }).optional()
+}).strict()).superRefine((tenants, ctx) => {
+  const seen = new Map<number, string>();
+  const ids = new Set<string>();
+  for (const tenant of tenants) {
+    if (ids.has(tenant.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Tenant duplicado: ${tenant.id}` });
+    }
+    ids.add(tenant.id);
+    
+    for (const companyId of tenant.companyIds) {
+      if (seen.has(companyId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `companyId ${companyId} em mais de um tenant (${seen.get(companyId)}, ${tenant.id})` });
+      }
+      seen.set(companyId, tenant.id);
+    }
+  }
+});
+
+// Assistant por fila (QUEUE_ASSISTANTS / QUEUE_ASSISTANTS_FILE)
+export const queueAssistantsSchema = z.array(z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, 'Nome da rota deve ter apenas letras minúsculas, números e hífen'),
+  tenantId: z.string().optional(),
+  queueIds: z.array(z.number()).optional(),
+  queueNames: z.array(z.string()).optional(),
+  assistantId: z.string().startsWith('asst_', 'Assistant ID deve começar com "asst_"'),
+  functions: z.array(z.string()).optional(),
+  instructionsFile: z.string().optional()
+}).strict().refine(
+  route => !!(route.queueIds?.length || route.queueNames?.length),
+  route => ({ message: `Rota ${route.name} sem queueIds nem queueNames` })
+)).superRefine((routes, ctx) => {
+  const names = new Set<string>();
+  for (const route of routes) {
+    if (names.has(route.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Rota duplicada: ${route.name}` });
+    }
+    names.add(route.name);
+  }
+});
+
+// Roteiro do provedor fake (LLM_FAKE_FIXTURES / LLM_FAKE_FIXTURES_FILE)
+export const fakeLLMFixturesSchema = z.object({
+  fallback: z.string().default('🤖 (fake) Recebi: {{message}}'),
+  rules: z.array(z.object({
+    name: z.string().min(1, 'Regra sem nome'),
+    keywords: z.array(z.string()).optional(),
+    pattern: z.string().optional(),
+    toolCalls: z.array(z.object({
+      name: z.string().min(1, 'Função sem nome'),
+      arguments: z.record(z.any()).optional(),
+      result: z.object({
+        success: z.boolean().default(true),
+        message: z.string(),
+        data: z.any().optional()
+      }).strict().optional()
+    }).strict()).optional(),
+    reply: z.string()
+  }).strict().refine(
+    rule => !!(rule.keywords?.length || rule.pattern),
+    rule => ({ message: `Regra ${rule.name} sem keywords nem pattern` })
+  )).default([])
+});
+
+export const requestHumanAgentSchema = z.object({
+  reason: z.string().min(1, 'Motivo é obrigatório').max(200, 'Motivo muito longo'),
+  summary: z.string().min(1, 'Resumo é obrigatório').max(2000, 'Resumo muito longo')
+});
+
 // 🔍 Funções de validação
 
 export function validateWHMCSResponse<T>(response: any): WHMCSApiResponse<T> {
@@ -288,7 +434,13 @@ export const schemas = {
   whmcsTicketCreate: whmcsTicketCreateSchema,
   whaTicketWebhook: whaTicketWebhookSchema,
   whaticketRealWebhook: whaticketRealWebhookSchema,
+  whatsappCloudWebhook: whatsappCloudWebhookSchema,
+  conversationRules: conversationRulesSchema,
+  tenants: tenantsSchema,
+  queueAssistants: queueAssistantsSchema,
+  fakeLLMFixtures: fakeLLMFixturesSchema,
   getClientInvoices: getClientInvoicesSchema,
   checkServiceStatus: checkServiceStatusSchema,
-  createTicket: createTicketSchema
+  createTicket: createTicketSchema,
+  requestHumanAgent: requestHumanAgentSchema
 };
\ No newline at end of file
@@ -0,0 +1,165 @@
+// 💬 Formatação de respostas para o WhatsApp
+// O assistant responde em Markdown; o WhatsApp usa *negrito*, _itálico_, ~tachado~ e ```mono```
+
+// Marcadores temporários (não aparecem em texto normal)
+const BOLD = '\u0001';
+const CODE = '\u0002';
+
+// 🧹 Remover anotações de citação do file_search (ex: 【4:0†fonte】)
+export function stripCitations(text: string): string {
+  return text.replace(/[ \t]*【[^】]*】/g, '');
+}
+
+// 🔄 Converter Markdown para a sintaxe do WhatsApp
+export function markdownToWhatsApp(text: string): string {
+  // Blocos de código ficam intactos (```...``` é suportado pelo WhatsApp)
+  const codeBlocks: string[] = [];
+  let result = text.replace(/```[a-zA-Z0-9_-]*\n?([\s\S]*?)```/g, (_, code: string) => {
+    codeBlocks.push('```' + code.replace(/\n$/, '') + '```');
+    return `${CODE}${codeBlocks.length - 1}${CODE}`;
+  });
+  
+  result = convertTables(result);
+  
+  result = result
+    // Títulos viram linhas em negrito
+    .replace(/^#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/gm, (_, title: string) => `${BOLD}${title.replace(/\*\*|__/g, '')}${BOLD}`)
+    // Linhas horizontais
+    .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+    // Imagens e links
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, '$2')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) =>
+      label === url || label === url.replace(/^https?:\/\//, '') ? url : `${label} (${url})`
+    )
+    // Negrito (**x** ou __x__) antes do itálico, para não confundir os asteriscos
+    .replace(/\*\*(.+?)\*\*/g, `${BOLD}$1${BOLD}`)
+    .replace(/__(.+?)__/g, `${BOLD}$1${BOLD}`)
+    // Itálico com asterisco simples
+    .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\w)/g, '$1_$2_')
+    // Tachado
+    .replace(/~~(.+?)~~/g, '~$1~')
+    // Listas com marcador
+    .replace(/^([ \t]*)[-*+][ \t]+/gm, '$1• ')
+    .replace(new RegExp(BOLD, 'g'), '*')
+    // No máximo uma linha em branco entre parágrafos
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+    
+  return result.replace(new RegExp(`${CODE}(\\d+)${CODE}`, 'g'), (_, index: string) => codeBlocks[Number(index)]);
+}
+
+// 📊 Tabelas Markdown viram linhas "a | b" (cabeçalho em negrito)
+function convertTables(text: string): string {
+  const lines = text.split('\n');
+  const output: string[] = [];
+  
+  for (let i = 0; i < lines.length; i++) {
+    const isRow = (line?: string) => !!line && /^\s*\|.*\|\s*$/.test(line);
+    const isSeparator = (line?: string) => !!line && /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+    const cells = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+    
+    if (isRow(lines[i]) && isSeparator(lines[i + 1])) {
+      output.push(`${BOLD}${cells(lines[i]).join(' | ')}${BOLD}`);
+      i++;
+      while (isRow(lines[i + 1])) {
+        i++;
+        output.push(cells(lines[i]).join(' | '));
+      }
+      continue;
+    }
+    
+    output.push(lines[i]);
+  }
+  
+  return output.join('\n');
+}
+
+// ✂️ Dividir texto longo em partes ordenadas, preferindo quebras de parágrafo
+export function splitMessage(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+  
+  const chunks: string[] = [];
+  let current = '';
+  
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+  };
+  
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      continue;
+    }
+    
+    flush();
+    
+    if (paragraph.length <= maxLength) {
+      current = paragraph;
+      continue;
+    }
+    
+    // Parágrafo maior que o limite: a última parte continua aberta para o próximo parágrafo
+    const pieces = splitOversized(paragraph, maxLength);
+    chunks.push(...pieces.slice(0, -1));
+    current = pieces[pieces.length - 1];
+  }
+  
+  flush();
+  return chunks;
+}
+
+// Cortar na última quebra de linha, fim de frase ou espaço dentro do limite
+function splitOversized(paragraph: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = paragraph;
+  
+  while (rest.length > maxLength) {
+    const window = rest.substring(0, maxLength + 1);
+    let cut = window.lastIndexOf('\n');
+    
+    if (cut <= 0) {
+      cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('! '), window.lastIndexOf('? ')) + 1;
+    }
+    if (cut <= 0) {
+      cut = window.lastIndexOf(' ');
+    }
+    if (cut <= 0) {
+      cut = maxLength;
+    }
+    
+    pieces.push(rest.substring(0, cut).trim());
+    rest = rest.substring(cut).trim();
+  }
+  
+  if (rest) {
+    pieces.push(rest);
+  }
+  
+  return pieces;
+}
+
+// 📤 Pipeline completo: citações → Markdown → partes
+export function formatOutboundMessage(text: string, options: { markdown?: boolean; maxLength: number }): string[] {
+  let formatted = stripCitations(text);
+  
+  if (options.markdown !== false) {
+    formatted = markdownToWhatsApp(formatted);
+  }
+  
+  return splitMessage(formatted.trim(), options.maxLength).filter(chunk => chunk.length > 0);
+}
+
+export const whatsappFormatter = {
+  stripCitations,
+  markdownToWhatsApp,
+  splitMessage,
+  format: formatOutboundMessage
+};